@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { scheduledFetch } from '@/services/request-scheduler';
 
 /**
  * Helius Asset Metadata Proxy
  * Fetches token metadata without exposing the API key
+ * (one mint per call; scans batch their lookups through POST /api/helius/assets)
  */
 
 const HELIUS_API_KEY = process.env.HELIUS_API_KEY ?? '';
@@ -25,8 +27,9 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const response = await fetch(`https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`, {
+    const response = await scheduledFetch('helius', `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`, {
       method: 'POST',
+      signal: request.signal,
       headers: {
         'Content-Type': 'application/json',
       },
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DAS_ASSET_BATCH_LIMIT, HeliusApiError, fetchHeliusAssetBatch } from '@/services/helius';
+import { getHeliusApiKey } from '@/config/api';
+
+/**
+ * Helius Batch Asset Proxy
+ * Normalized metadata for up to DAS_ASSET_BATCH_LIMIT mints in one getAssetBatch call,
+ * without exposing the API key. Responds with { assets: { [mint]: record } }; mints
+ * Helius doesn't know are left out.
+ */
+
+const requestSchema = z.object({
+  mints: z.array(z.string().min(32).max(44))
+    .min(1, 'At least one mint is required')
+    .max(DAS_ASSET_BATCH_LIMIT, `At most ${DAS_ASSET_BATCH_LIMIT} mints per request`),
+});
+
+export async function POST(request: NextRequest) {
+  if (!getHeliusApiKey()) {
+    return NextResponse.json(
+      { error: 'Helius API not configured' },
+      { status: 500 }
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const parsed = requestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid payload', details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const mints = Array.from(new Set(parsed.data.mints));
+    const assets = await fetchHeliusAssetBatch(mints, request.signal);
+    return NextResponse.json({ assets });
+  } catch (error) {
+    console.error('Helius asset batch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch asset metadata' },
+      { status: error instanceof HeliusApiError ? error.status : 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { scheduledFetch } from '@/services/request-scheduler';
 
 /**
  * Helius Balances Proxy
@@ -27,7 +28,7 @@ export async function GET(request: NextRequest) {
   try {
     const url = `https://api.helius.xyz/v0/addresses/${walletAddress}/balances?api-key=${HELIUS_API_KEY}`;
     
-    const response = await fetch(url);
+    const response = await scheduledFetch('helius', url, { signal: request.signal });
     
     if (!response.ok) {
       const text = await response.text();
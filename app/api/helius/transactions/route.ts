@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { scheduledFetch } from '@/services/request-scheduler';
 
 /**
  * Helius Transactions Proxy
@@ -17,6 +18,7 @@ export async function GET(request: NextRequest) {
 
   const walletAddress = request.nextUrl.searchParams.get('wallet');
   const before = request.nextUrl.searchParams.get('before');
+  const until = request.nextUrl.searchParams.get('until');
   const limit = request.nextUrl.searchParams.get('limit') ?? '100';
   
   if (!walletAddress) {
@@ -33,8 +35,11 @@ export async function GET(request: NextRequest) {
     if (before) {
       url.searchParams.set('before', before);
     }
+    if (until) {
+      url.searchParams.set('until', until);
+    }
     
-    const response = await fetch(url.toString());
+    const response = await scheduledFetch('helius', url.toString(), { signal: request.signal }, { priority: 'high' });
     
     if (!response.ok) {
       const text = await response.text();
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { scheduledFetch } from '@/services/request-scheduler';
 
 /**
  * RPC Proxy Route
@@ -19,8 +20,9 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     
-    const response = await fetch(RPC_URL, {
+    const response = await scheduledFetch('helius', RPC_URL, {
       method: 'POST',
+      signal: request.signal,
       headers: {
         'Content-Type': 'application/json',
       },
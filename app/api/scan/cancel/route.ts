@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/integrations/supabase/server';
+
+/**
+ * Cancel a queued or running scan job.
+ * A running job is stopped by its worker, which polls for the cancelled status.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { jobId } = body;
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'jobId is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: cancelled, error: updateError } = await supabase
+      .from('scan_jobs')
+      .update({
+        status: 'cancelled',
+        error: 'Cancelled by user',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', jobId)
+      .in('status', ['queued', 'processing'])
+      .select('id');
+
+    if (updateError) {
+      console.error('Failed to cancel job:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to cancel job' },
+        { status: 500 }
+      );
+    }
+
+    if (cancelled && cancelled.length > 0) {
+      return NextResponse.json({
+        status: 'cancelled',
+        jobId,
+      });
+    }
+
+    // Nothing updated: unknown job, or it already finished
+    const { data: job } = await supabase
+      .from('scan_jobs')
+      .select('status')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      status: job.status,
+      message: 'Job already finished',
+    });
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/integrations/supabase/server';
-import { analyzePaperhands } from '@/services/paperhands';
+import { runScanJob } from '@/lib/scan-jobs';
+import { getRequestSchedulerStats } from '@/services/request-scheduler';
 
 const MAX_CONCURRENT = 5;
 
@@ -54,72 +55,31 @@ export async function POST(_request: NextRequest) {
     });
   }
 
-  // Job claimed successfully - run the analysis
-  try {
-    const result = await analyzePaperhands(
-      nextJob.wallet_address,
-      nextJob.days_back ?? 30
-    );
-
-    const resultJson = JSON.parse(JSON.stringify(result));
-
-    // Mark as complete
-    await supabase
-      .from('scan_jobs')
-      .update({
-        status: 'complete',
-        result: resultJson,
-        completed_at: new Date().toISOString(),
-      })
-      .eq('id', nextJob.id);
-
-    // ========== CACHE THE RESULT ==========
-    // Upsert into wallet_analyses with 48-hour expiry
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 48);
-
-    await supabase
-      .from('wallet_analyses')
-      .upsert({
-        wallet_address: nextJob.wallet_address,
-        total_regret: result.totalRegret ?? 0,
-        total_events: result.totalEvents ?? 0,
-        coins_traded: result.coinsTraded ?? 0,
-        win_rate: result.winRate ?? 0,
-        avg_hold_time: result.avgHoldTime ?? 0,
-        top_regretted_tokens: result.topRegrettedTokens ?? [],
-        analysis_date_range: result.analysisDateRange ?? null,
-        analyzed_at: new Date().toISOString(),
-        expires_at: expiresAt.toISOString(),
-      }, {
-        onConflict: 'wallet_address',
-      });
+  // Job claimed successfully - run the analysis, stopping if the job gets cancelled
+  const outcome = await runScanJob(supabase, nextJob);
 
+  if (outcome.status === 'complete') {
     return NextResponse.json({
       message: 'Job completed',
       jobId: nextJob.id,
     });
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    await supabase
-      .from('scan_jobs')
-      .update({
-        status: 'failed',
-        error: errorMessage,
-        completed_at: new Date().toISOString(),
-      })
-      .eq('id', nextJob.id);
+  }
 
+  if (outcome.status === 'cancelled') {
     return NextResponse.json({
-      message: 'Job failed',
+      message: 'Job cancelled',
       jobId: nextJob.id,
-      error: errorMessage,
     });
   }
+
+  return NextResponse.json({
+    message: 'Job failed',
+    jobId: nextJob.id,
+    error: outcome.error,
+  });
 }
 
-// GET endpoint to check queue status
+// GET endpoint to check queue status and how close each API provider is to its quota
 export async function GET() {
   const supabase = createServerSupabaseClient();
 
@@ -135,5 +95,6 @@ export async function GET() {
     maxConcurrent: MAX_CONCURRENT,
     currentlyProcessing: processing,
     jobs: jobs ?? [],
+    providers: getRequestSchedulerStats(),
   });
 }
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/integrations/supabase/server';
 import { isKolWallet, KOL_REDIRECT_MESSAGE } from '@/config/kol-wallets';
+import {
+  analysisOptionsSchema,
+  analysisResultKey,
+  DEFAULT_SCAN_DAYS_BACK,
+  isCacheableAnalysis,
+  scanJobAnalysisOptions,
+} from '@/config/analysis';
 
 const MAX_CONCURRENT = 5;
 const RATE_LIMIT_MINUTES = 15; // Soft rate limit: 1 scan per wallet per 15 minutes
@@ -9,7 +16,7 @@ const RATE_LIMIT_MINUTES = 15; // Soft rate limit: 1 scan per wallet per 15 minu
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { walletAddress, daysBack = 30 } = body;
+    const { walletAddress, daysBack = DEFAULT_SCAN_DAYS_BACK, costBasis, options: requestedOptions } = body;
 
     if (!walletAddress || typeof walletAddress !== 'string') {
       return NextResponse.json(
@@ -18,6 +25,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Top-level daysBack/costBasis are still accepted; options overrides them
+    const parsedOptions = analysisOptionsSchema.safeParse({
+      daysBack,
+      ...(costBasis !== undefined ? { costBasis } : {}),
+      ...(requestedOptions ?? {}),
+    });
+
+    if (!parsedOptions.success) {
+      return NextResponse.json(
+        { error: 'Invalid analysis options', details: parsedOptions.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const options = parsedOptions.data;
+    const resultKey = analysisResultKey(options);
+
     // ========== KOL WALLET BLOCK ==========
     // Check if wallet is a known KOL - block before any DB/RPC calls
     if (isKolWallet(walletAddress)) {
@@ -31,15 +55,19 @@ export async function POST(request: NextRequest) {
     const supabase = createServerSupabaseClient();
 
     // ========== CACHE CHECK ==========
-    // Check for valid cached result before queueing
-    const { data: cached } = await supabase
-      .from('wallet_analyses')
-      .select('*')
-      .eq('wallet_address', walletAddress)
-      .gt('expires_at', new Date().toISOString())
-      .order('analyzed_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    // Check for valid cached result before queueing. Only standard scans with the
+    // default cost basis are cached (see isCacheableAnalysis).
+    const { data: cached } = isCacheableAnalysis(options)
+      ? await supabase
+        .from('wallet_analyses')
+        .select('*')
+        .eq('wallet_address', walletAddress)
+        .eq('cost_basis_method', options.costBasis)
+        .gt('expires_at', new Date().toISOString())
+        .order('analyzed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+      : { data: null };
 
     if (cached) {
       // Return cached result immediately - skip queue entirely
@@ -56,21 +84,30 @@ export async function POST(request: NextRequest) {
           avgHoldTime: cached.avg_hold_time,
           topRegrettedTokens: cached.top_regretted_tokens,
           analysisDateRange: cached.analysis_date_range,
+          costBasisMethod: cached.cost_basis_method,
           analyzedAt: cached.analyzed_at,
         },
       });
     }
 
     // ========== DUPLICATE WALLET SCAN LOCK ==========
-    // Check if wallet already has a queued or processing job
-    const { data: existingJob } = await supabase
+    // Check if wallet already has a queued or processing job with the same result options
+    const { data: activeJobs } = await supabase
       .from('scan_jobs')
-      .select('id, status, created_at')
+      .select('id, status, created_at, days_back, cost_basis, options')
       .eq('wallet_address', walletAddress)
+      .eq('cost_basis', options.costBasis)
       .in('status', ['queued', 'processing'])
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+      .order('created_at', { ascending: false });
+
+    const existingJob = (activeJobs ?? []).find(job => {
+      try {
+        return analysisResultKey(scanJobAnalysisOptions(job)) === resultKey;
+      } catch {
+        // Options this version can't read; don't share the job
+        return false;
+      }
+    });
 
     if (existingJob) {
       // Get queue position for existing job
@@ -127,7 +164,9 @@ export async function POST(request: NextRequest) {
       .from('scan_jobs')
       .insert({
         wallet_address: walletAddress,
-        days_back: daysBack,
+        days_back: options.daysBack ?? null,
+        cost_basis: options.costBasis,
+        options: JSON.parse(JSON.stringify(options)),
         status: 'queued',
       })
       .select()
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/integrations/supabase/server';
-import { analyzePaperhands } from '@/services/paperhands';
+import { runScanJob } from '@/lib/scan-jobs';
 
 export async function POST(request: NextRequest) {
   try {
@@ -38,9 +38,9 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    if (job.status === 'failed') {
+    if (job.status === 'failed' || job.status === 'cancelled') {
       return NextResponse.json({
-        status: 'failed',
+        status: job.status,
         error: job.error,
       });
     }
@@ -50,6 +50,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         status: 'processing',
         message: 'Job is already being processed',
+        progress: job.progress,
       });
     }
 
@@ -74,69 +75,21 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Job successfully claimed - run the analysis
-    try {
-      const result = await analyzePaperhands(
-        job.wallet_address,
-        job.days_back ?? 30
-      );
-
-      const resultJson = JSON.parse(JSON.stringify(result));
-
-      // Mark as complete
-      await supabase
-        .from('scan_jobs')
-        .update({
-          status: 'complete',
-          result: resultJson,
-          completed_at: new Date().toISOString(),
-        })
-        .eq('id', jobId);
-
-      // ========== CACHE THE RESULT ==========
-      // Upsert into wallet_analyses with 48-hour expiry
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 48);
-
-      await supabase
-        .from('wallet_analyses')
-        .upsert({
-          wallet_address: job.wallet_address,
-          total_regret: result.totalRegret ?? 0,
-          total_events: result.totalEvents ?? 0,
-          coins_traded: result.coinsTraded ?? 0,
-          win_rate: result.winRate ?? 0,
-          avg_hold_time: result.avgHoldTime ?? 0,
-          top_regretted_tokens: result.topRegrettedTokens ?? [],
-          analysis_date_range: result.analysisDateRange ?? null,
-          analyzed_at: new Date().toISOString(),
-          expires_at: expiresAt.toISOString(),
-        }, {
-          onConflict: 'wallet_address',
-        });
+    // Job successfully claimed - run the analysis until it finishes, the job is
+    // cancelled or the caller disconnects
+    const outcome = await runScanJob(supabase, job, { signal: request.signal });
 
+    if (outcome.status === 'complete') {
       return NextResponse.json({
         status: 'complete',
-        result,
-      });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      // Mark as failed
-      await supabase
-        .from('scan_jobs')
-        .update({
-          status: 'failed',
-          error: errorMessage,
-          completed_at: new Date().toISOString(),
-        })
-        .eq('id', jobId);
-
-      return NextResponse.json({
-        status: 'failed',
-        error: errorMessage,
+        result: outcome.result,
       });
     }
+
+    return NextResponse.json({
+      status: outcome.status,
+      error: outcome.error,
+    });
   } catch (error) {
     console.error('Run job error:', error);
     return NextResponse.json(
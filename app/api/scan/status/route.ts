@@ -43,6 +43,7 @@ export async function GET(request: NextRequest) {
     walletAddress: job.wallet_address,
     status: job.status,
     queuePosition: job.status === 'queued' ? currentPosition : null,
+    progress: job.status === 'processing' ? job.progress : null,
     result: job.result,
     error: job.error,
     createdAt: job.created_at,
@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { createServerSupabaseClient } from '@/integrations/supabase/server';
+import { runScanJob, subscribeToScanJob, ScanJobEvent, ScanJobOutcome } from '@/lib/scan-jobs';
+import { sleep } from '@/lib/abort';
+
+export const dynamic = 'force-dynamic';
+
+const POLL_MS = 2000;
+// Proxies drop connections that stay silent for too long
+const KEEP_ALIVE_MS = 15000;
+
+type SendEvent = (event: string, data: unknown) => void;
+
+function sendOutcome(send: SendEvent, outcome: ScanJobOutcome) {
+  if (outcome.status === 'complete') {
+    send('result', outcome.result);
+  } else {
+    send(outcome.status, { error: outcome.error });
+  }
+}
+
+function forwardJobEvent(send: SendEvent) {
+  return (event: ScanJobEvent) => {
+    if (event.type === 'progress') send('progress', event.progress);
+    else if (event.type === 'partial') send('partial', event.stats);
+    else sendOutcome(send, event.outcome);
+  };
+}
+
+/**
+ * Forward the events of a job running in this process until it's done.
+ * Resolves false right away when the job isn't running here.
+ */
+function followLocalJob(jobId: string, send: SendEvent, signal: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    const forward = forwardJobEvent(send);
+    const unsubscribe = subscribeToScanJob(jobId, (event) => {
+      forward(event);
+      if (event.type === 'done') finish();
+    });
+    if (!unsubscribe) {
+      resolve(false);
+      return;
+    }
+
+    const finish = () => {
+      unsubscribe();
+      signal.removeEventListener('abort', finish);
+      resolve(true);
+    };
+    signal.addEventListener('abort', finish, { once: true });
+  });
+}
+
+async function streamJob(
+  supabase: SupabaseClient<Database>,
+  jobId: string,
+  send: SendEvent,
+  signal: AbortSignal
+) {
+  let lastQueuePosition: number | null = null;
+  let lastProgress: string | null = null;
+
+  while (!signal.aborted) {
+    const { data: job, error } = await supabase
+      .from('scan_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error || !job) {
+      send('failed', { error: 'Job not found' });
+      return;
+    }
+
+    if (job.status === 'complete') {
+      send('result', job.result);
+      return;
+    }
+
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      send(job.status, { error: job.error });
+      return;
+    }
+
+    if (job.status === 'queued') {
+      // HARD GUARD: the same atomic claim as /api/scan/run, so the limit of 5 holds
+      const { data: claimed, error: claimError } = await supabase
+        .rpc('try_claim_job', { job_id: jobId });
+
+      if (claimError) {
+        console.error('Failed to claim job:', claimError);
+      } else if (claimed) {
+        // onEvent is subscribed before the run starts, so no event is missed. The run
+        // is awaited here, keeping it inside this invocation, but isn't tied to the
+        // connection: a dropped or reloaded stream reconnects and follows it
+        // (cancelling goes through /api/scan/cancel)
+        await runScanJob(supabase, job, { onEvent: forwardJobEvent(send) });
+        return;
+      } else {
+        const { count } = await supabase
+          .from('scan_jobs')
+          .select('*', { count: 'exact', head: true })
+          .eq('status', 'queued')
+          .lt('created_at', job.created_at);
+
+        const queuePosition = (count ?? 0) + 1;
+        if (queuePosition !== lastQueuePosition) {
+          lastQueuePosition = queuePosition;
+          send('queued', { queuePosition });
+        }
+      }
+    } else if (await followLocalJob(jobId, send, signal)) {
+      return;
+    } else {
+      // Running on another instance: only its stored progress is visible from here
+      const progress = JSON.stringify(job.progress);
+      if (job.progress && progress !== lastProgress) {
+        lastProgress = progress;
+        send('progress', job.progress);
+      }
+    }
+
+    await sleep(POLL_MS, signal).catch(() => undefined);
+  }
+}
+
+/**
+ * Stream a scan job as Server-Sent Events:
+ * - `queued` {queuePosition} while it waits for a slot
+ * - `progress` ScanProgressEvent as the scan advances
+ * - `partial` WalletStats (isPartial) for the trades fetched and priced so far
+ * - `result` WalletStats, or `failed` / `cancelled` {error}, after which the stream ends
+ *
+ * A queued job is claimed and run by this request (like /api/scan/run), which only
+ * ends once the job does; it keeps running when the client disconnects, so
+ * EventSource's reconnect picks it up again.
+ * A job already running in this process is followed live; one running elsewhere by
+ * polling scan_jobs.progress, without partial results.
+ */
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId');
+
+  if (!jobId) {
+    return NextResponse.json(
+      { error: 'jobId is required' },
+      { status: 400 }
+    );
+  }
+
+  const supabase = createServerSupabaseClient();
+
+  const { data: job } = await supabase
+    .from('scan_jobs')
+    .select('id')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Job not found' },
+      { status: 404 }
+    );
+  }
+
+  const signal = request.signal;
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (closed || signal.aborted) return;
+        controller.enqueue(encoder.encode(chunk));
+      };
+      const send: SendEvent = (event, data) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      try {
+        await streamJob(supabase, jobId, send, signal);
+      } catch (error) {
+        console.error('Scan stream error:', error);
+        send('failed', { error: 'Internal server error' });
+      } finally {
+        clearInterval(keepAlive);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { createServerSupabaseClient } from "@/integrations/supabase/server";
+import { DEFAULT_COST_BASIS, costBasisMethodSchema } from "@/config/analysis";
 import {
   ensureDailyLeaderboardReward,
   type LeaderboardEntry,
@@ -15,6 +16,7 @@ const requestSchema = z.object({
   avgHoldTime: z.number(),
   topRegrettedTokens: z.any().optional(),
   analysisDateRange: z.any().optional(),
+  costBasisMethod: costBasisMethodSchema.optional(),
 });
 
 export async function POST(request: Request) {
@@ -39,6 +41,7 @@ export async function POST(request: Request) {
     avg_hold_time: parsed.data.avgHoldTime,
     top_regretted_tokens: parsed.data.topRegrettedTokens ?? null,
     analysis_date_range: parsed.data.analysisDateRange ?? null,
+    cost_basis_method: parsed.data.costBasisMethod ?? DEFAULT_COST_BASIS,
     analyzed_at: new Date().toISOString(),
   };
 
@@ -3,20 +3,26 @@
 // Feature flag: set to true to enable analysis, false to disable
 const ANALYZE_ENABLED = true;
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Search, TrendingDown, DollarSign, Clock, Target, Award, AlertTriangle, Users, Loader2 } from "lucide-react";
+import { Search, TrendingDown, DollarSign, Clock, Target, Award, AlertTriangle, Users, Loader2, X } from "lucide-react";
 import { Navigation, TopBar } from "@/components/Navigation";
-import { AnimatedLoader } from "@/components/AnimatedLoader";
+import { AnimatedLoader, ScanProgressBar } from "@/components/AnimatedLoader";
 import { MetricCard } from "@/components/MetricCard";
+import { HoldingsPanel } from "@/components/HoldingsPanel";
+import { TokenStatsTable } from "@/components/TokenStatsTable";
+import { DexBreakdownCard } from "@/components/DexBreakdownCard";
 import { Card } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-// generateTokenStats available in mockData.ts if needed
-import { WalletStats } from "@/types/paperhands";
+import { CostBasisMethod, ReceivedCostBasis, WalletStats } from "@/types/paperhands";
+import type { ScanProgressEvent } from "@/types/progress";
+import { COST_BASIS_METHODS, DEFAULT_COST_BASIS, DEFAULT_RECEIVED_COST_BASIS, MAX_LINKED_WALLETS, RECEIVED_COST_BASIS } from "@/config/analysis";
 import { toast } from "@/hooks/use-toast";
 import { analyzePaperhands } from "@/services/paperhands";
 import { isValidSolanaAddress } from "@/services/solana";
@@ -39,14 +45,22 @@ const calculateCashback = (regretAmount: number): string => {
 const Dashboard = () => {
   const [walletAddress, setWalletAddress] = useState("");
   const [selectedDays, setSelectedDays] = useState<number>(1);
+  const [costBasis, setCostBasis] = useState<CostBasisMethod>(DEFAULT_COST_BASIS);
+  const [receivedCostBasis, setReceivedCostBasis] = useState<ReceivedCostBasis>(DEFAULT_RECEIVED_COST_BASIS);
+  const [linkedWalletsInput, setLinkedWalletsInput] = useState("");
+  const [detectLinkedWallets, setDetectLinkedWallets] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [walletStats, setWalletStats] = useState<WalletStats | null>(null);
   const [_showSlow, setShowSlow] = useState(false);
   
   // Queue state for high traffic mode
   const [queueLength, setQueueLength] = useState(() => Math.floor(Math.random() * 25) + 1);
-  const [queuePosition, setQueuePosition] = useState<number | null>(null);
-  const [currentJobId, setCurrentJobId] = useState<string | null>(null);
+
+  // Live progress of the running analysis
+  const [scanProgress, setScanProgress] = useState<ScanProgressEvent | null>(null);
+
+  // Aborts the in-flight analysis (Cancel button, leaving the page)
+  const analysisControllerRef = useRef<AbortController | null>(null);
   
   // Partial results state for timeout handling
   const [isPartialResult, setIsPartialResult] = useState(false);
@@ -59,71 +73,7 @@ const Dashboard = () => {
     return () => clearInterval(interval);
   }, []);
 
-  // Poll job status when we have a job in queue
-  useEffect(() => {
-    if (!currentJobId) return;
-
-    const pollJobStatus = async () => {
-      try {
-        const response = await fetch(`/api/scan/status?jobId=${currentJobId}`);
-        if (!response.ok) return;
-        
-        const data = await response.json();
-        
-        if (data.status === 'queued') {
-          setQueuePosition(data.queuePosition);
-        } else if (data.status === 'processing') {
-          setQueuePosition(null);
-        } else if (data.status === 'completed' && data.result) {
-          // Scan completed - use results
-          setCurrentJobId(null);
-          setQueuePosition(null);
-          setIsAnalyzing(false);
-          
-          // Map queued result to WalletStats format
-          const stats: WalletStats = {
-            address: walletAddress,
-            paperhandsScore: 0,
-            totalRegret: data.result.totalRegret ?? 0,
-            totalRegretPercent: 0,
-            worstLoss: 0,
-            totalExitedEarly: 0,
-            totalEvents: data.result.totalEvents ?? 0,
-            coinsTraded: data.result.coinsTraded ?? 0,
-            winRate: data.result.winRate ?? 0,
-            avgHoldTime: data.result.avgHoldTime ?? 0,
-            avgShouldaHoldTime: 0,
-            lossRate: 0,
-            topRegrettedTokens: data.result.topRegrettedTokens ?? [],
-            analysisDateRange: data.result.analysisDateRange,
-            events: [],
-          };
-          setWalletStats(stats);
-          toast({ 
-            title: "Analysis Complete!", 
-            description: stats.totalEvents > 0 
-              ? `Found ${stats.totalEvents} paperhands events`
-              : `No paperhands events detected`,
-          });
-        } else if (data.status === 'failed') {
-          setCurrentJobId(null);
-          setQueuePosition(null);
-          setIsAnalyzing(false);
-          toast({ 
-            title: "Analysis Failed", 
-            description: data.error || 'An error occurred during analysis',
-            variant: "destructive" 
-          });
-        }
-      } catch (error) {
-        console.error('Failed to poll job status:', error);
-      }
-    };
-
-    pollJobStatus();
-    const interval = setInterval(pollJobStatus, 3000); // Poll every 3 seconds
-    return () => clearInterval(interval);
-  }, [currentJobId, walletAddress]);
+  useEffect(() => () => analysisControllerRef.current?.abort(), []);
 
   const handleAnalyze = async () => {
     const trimmedAddress = walletAddress.trim();
@@ -156,9 +106,35 @@ const Dashboard = () => {
       return;
     }
 
+    const linkedWallets = linkedWalletsInput
+      .split(/[\s,]+/)
+      .map((address) => address.trim())
+      .filter((address) => address && address !== trimmedAddress);
+    const invalidLinked = linkedWallets.find((address) => !isValidSolanaAddress(address));
+    if (invalidLinked) {
+      toast({
+        title: "Invalid Linked Wallet",
+        description: `${invalidLinked} is not a valid Solana wallet address`,
+        variant: "destructive"
+      });
+      return;
+    }
+    if (linkedWallets.length > MAX_LINKED_WALLETS) {
+      toast({
+        title: "Too Many Linked Wallets",
+        description: `Link up to ${MAX_LINKED_WALLETS} wallets`,
+        variant: "destructive"
+      });
+      return;
+    }
+
     setIsAnalyzing(true);
     setWalletStats(null);
     setIsPartialResult(false);
+    setScanProgress(null);
+
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
 
     // Show a helpful message after 10 seconds
     const slowAnalysisTimer = setTimeout(() => {
@@ -172,7 +148,18 @@ const Dashboard = () => {
 
     try {
       // Analysis now handles timeout internally and returns partial results with isPartial flag
-      const stats = await analyzePaperhands(trimmedAddress, selectedDays);
+      const stats = await analyzePaperhands(trimmedAddress, {
+        daysBack: selectedDays,
+        costBasis,
+        receivedCostBasis,
+        linkedWallets,
+        detectLinkedWallets,
+        signal: controller.signal,
+        onProgress: setScanProgress,
+        onPartialResult: (partial) => {
+          if (!controller.signal.aborted) setWalletStats(partial);
+        },
+      });
 
       // Check if results are partial (hit the 90s timeout)
       if (stats.isPartial) {
@@ -206,6 +193,7 @@ const Dashboard = () => {
             avgHoldTime: stats.avgHoldTime,
             topRegrettedTokens: stats.topRegrettedTokens,
             analysisDateRange: stats.analysisDateRange,
+            costBasisMethod: stats.costBasisMethod,
           }),
         });
 
@@ -228,6 +216,12 @@ const Dashboard = () => {
           : `No paperhands events detected (${timeRangeText})`,
       });
     } catch (error) {
+      // Partial results of a scan that won't finish would pass for final ones
+      setWalletStats(null);
+      if (controller.signal.aborted) {
+        toast({ title: "Analysis Cancelled", description: "Stopped analyzing this wallet" });
+        return;
+      }
       console.error('Analysis error:', error);
       const errorMessage = error instanceof Error ? error.message : 'Could not analyze wallet';
       toast({ 
@@ -237,10 +231,17 @@ const Dashboard = () => {
       });
     } finally {
       clearTimeout(slowAnalysisTimer);
+      if (analysisControllerRef.current === controller) {
+        analysisControllerRef.current = null;
+      }
       setIsAnalyzing(false);
     }
   };
 
+  const handleCancel = () => {
+    analysisControllerRef.current?.abort();
+  };
+
   // Unique coins traded (by mint or symbol as fallback)
   const coinsTraded = walletStats?.coinsTraded ?? (walletStats ? new Set(walletStats.events.map(e => e.tokenMint || e.tokenSymbol)).size : 0);
 
@@ -278,26 +279,6 @@ const Dashboard = () => {
             )}
           </AnimatePresence>
 
-          {/* Queue Position Display */}
-          <AnimatePresence>
-            {queuePosition !== null && isAnalyzing && (
-              <motion.div
-                initial={{ opacity: 0, scale: 0.95 }}
-                animate={{ opacity: 1, scale: 1 }}
-                exit={{ opacity: 0, scale: 0.95 }}
-                className="rounded-lg border border-primary/30 bg-primary/10 px-6 py-4"
-              >
-                <div className="flex items-center justify-center gap-4">
-                  <Loader2 className="h-5 w-5 animate-spin text-primary" />
-                  <div className="text-center">
-                    <span className="text-lg font-bold text-primary">You are #{queuePosition} in line</span>
-                    <p className="text-sm text-muted-foreground">Scans are processed in order. Please wait...</p>
-                  </div>
-                </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
-
           {/* Beta Disclaimer Banner - Slim Style */}
           <motion.div
             initial={{ opacity: 0, y: -10 }}
@@ -308,7 +289,7 @@ const Dashboard = () => {
               <AlertTriangle className="h-5 w-5 flex-shrink-0 text-primary" />
               <div className="flex-1 text-sm">
                 <span className="font-bold text-foreground">v0.1 Beta</span>
-                <span className="text-muted-foreground"> • $100+ events only • Current prices (historical peaks coming soon) • Some tokens may lack logos/data</span>
+                <span className="text-muted-foreground"> • $100+ events only • Post-sell peaks from price history • Some tokens may lack logos/data</span>
               </div>
             </div>
           </motion.div>
@@ -332,7 +313,7 @@ const Dashboard = () => {
                 <RadioGroup 
                   value={selectedDays.toString()} 
                   onValueChange={(value) => setSelectedDays(Number(value))}
-                  className="grid grid-cols-2 gap-3 md:grid-cols-4"
+                  className="grid grid-cols-2 gap-3 md:grid-cols-3"
                 >
                   <div className="relative">
                     <RadioGroupItem value="1" id="1day" className="peer sr-only" />
@@ -370,6 +351,28 @@ const Dashboard = () => {
                     </Label>
                   </div>
                   
+                  <div className="relative">
+                    <RadioGroupItem value="90" id="90days" className="peer sr-only" />
+                    <Label
+                      htmlFor="90days"
+                      className="flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-muted/30 bg-background/30 p-3 transition-all hover:border-primary/40 peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-primary/10"
+                    >
+                      <span className="font-medium text-muted-foreground peer-data-[state=checked]:text-foreground">Last 90 Days</span>
+                      <span className="text-xs text-muted-foreground/70">Quick on rescans</span>
+                    </Label>
+                  </div>
+                  
+                  <div className="relative">
+                    <RadioGroupItem value="365" id="365days" className="peer sr-only" />
+                    <Label
+                      htmlFor="365days"
+                      className="flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-muted/30 bg-background/30 p-3 transition-all hover:border-primary/40 peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-primary/10"
+                    >
+                      <span className="font-medium text-muted-foreground peer-data-[state=checked]:text-foreground">Last Year</span>
+                      <span className="text-xs text-muted-foreground/70">Slow first scan</span>
+                    </Label>
+                  </div>
+                  
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -394,6 +397,52 @@ const Dashboard = () => {
                   Most users get the best results from 24H scans.
                 </p>
               </div>
+
+              {/* Cost Basis Selector */}
+              <div className="mb-6 flex items-center gap-3">
+                <h3 className="text-sm font-semibold text-foreground">Cost Basis</h3>
+                <Select value={costBasis} onValueChange={(value) => setCostBasis(value as CostBasisMethod)}>
+                  <SelectTrigger className="w-56 border-primary/30 bg-background/80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(COST_BASIS_METHODS) as CostBasisMethod[]).map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {COST_BASIS_METHODS[method].label} — {COST_BASIS_METHODS[method].description}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <h3 className="text-sm font-semibold text-foreground">Received Tokens</h3>
+                <Select value={receivedCostBasis} onValueChange={(value) => setReceivedCostBasis(value as ReceivedCostBasis)}>
+                  <SelectTrigger className="w-56 border-primary/30 bg-background/80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RECEIVED_COST_BASIS) as ReceivedCostBasis[]).map((basis) => (
+                      <SelectItem key={basis} value={basis}>
+                        {RECEIVED_COST_BASIS[basis].label} — {RECEIVED_COST_BASIS[basis].description}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Linked Wallets */}
+              <div className="mb-6 space-y-3">
+                <Input
+                  placeholder="Your other wallets (optional, comma-separated)"
+                  value={linkedWalletsInput}
+                  onChange={(e) => setLinkedWalletsInput(e.target.value)}
+                  className="border-primary/30 bg-background/80 backdrop-blur-sm"
+                />
+                <div className="flex items-center gap-3">
+                  <Switch id="detect-linked" checked={detectLinkedWallets} onCheckedChange={setDetectLinkedWallets} />
+                  <Label htmlFor="detect-linked" className="text-sm text-muted-foreground">
+                    Find wallets this one moves tokens back and forth with, and analyze them together
+                  </Label>
+                </div>
+              </div>
               
               <div className="flex gap-3">
                 <Input
@@ -418,16 +467,22 @@ const Dashboard = () => {
             <div className="absolute inset-0 bg-gradient-to-br from-primary/10 to-transparent" />
           </motion.div>
 
-          {/* Loader */}
+          {/* Loader, until the first partial results arrive */}
           <AnimatePresence>
-            {isAnalyzing && (
+            {isAnalyzing && !walletStats && (
               <motion.div
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
               >
                 <Card className="card-glass noise-texture">
-                  <AnimatedLoader />
+                  <AnimatedLoader progress={scanProgress} />
+                  <div className="flex justify-center pb-6">
+                    <Button variant="outline" size="sm" onClick={handleCancel}>
+                      <X className="mr-2 h-4 w-4" />
+                      Cancel
+                    </Button>
+                  </div>
                 </Card>
               </motion.div>
             )}
@@ -435,12 +490,30 @@ const Dashboard = () => {
 
           {/* Results */}
           <AnimatePresence>
-            {walletStats && !isAnalyzing && (
+            {walletStats && (
                <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 className="space-y-8"
               >
+                {/* Live progress above results that keep growing until the scan finishes */}
+                {isAnalyzing && (
+                  <Card className="card-glass p-4">
+                    <div className="flex items-center gap-4">
+                      <Loader2 className="h-5 w-5 flex-shrink-0 animate-spin text-primary" />
+                      <div className="flex-1 space-y-2">
+                        <p className="text-sm text-muted-foreground">
+                          {scanProgress?.message ?? "Analyzing..."} Results below update as trades come in.
+                        </p>
+                        {scanProgress && <ScanProgressBar progress={scanProgress} />}
+                      </div>
+                      <Button variant="outline" size="sm" onClick={handleCancel}>
+                        <X className="mr-2 h-4 w-4" />
+                        Cancel
+                      </Button>
+                    </div>
+                  </Card>
+                )}
                 {/* Partial Results Banner */}
                 {isPartialResult && (
                   <motion.div
@@ -466,10 +539,27 @@ const Dashboard = () => {
                       <p className="text-sm text-muted-foreground">
                         Analysis for <span className="font-semibold text-foreground">last {walletStats.analysisDateRange.daysBack} days</span>
                         {' '}({new Date(walletStats.analysisDateRange.startDate).toLocaleDateString()} - {new Date(walletStats.analysisDateRange.endDate).toLocaleDateString()})
+                        {walletStats.costBasisMethod && (
+                          <> • {COST_BASIS_METHODS[walletStats.costBasisMethod].label} cost basis</>
+                        )}
+                        {walletStats.linkedWallets && (
+                          <> • {walletStats.linkedWallets.length + 1} linked wallets</>
+                        )}
                       </p>
                       <p className="text-xs text-muted-foreground">
-                        💡 "Missed Since Sell" uses current prices only. Historical peaks coming soon with Birdeye integration.
+                        💡 "Missed Since Sell" uses the highest price reached after each sell.
                       </p>
+                      {walletStats.fees && walletStats.fees.swapsWithFees > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          ⛽ ${walletStats.fees.totalPaid.toLocaleString(undefined, { maximumFractionDigits: 2 })} paid in fees, priority fees and tips
+                          {' '}({walletStats.fees.percentOfVolume.toFixed(2)}% of volume), included in PnL.
+                        </p>
+                      )}
+                      {walletStats.unpricedSwaps !== undefined && walletStats.unpricedSwaps > 0 && (
+                        <p className="text-xs text-amber-400">
+                          ⚠️ {walletStats.unpricedSwaps} trade{walletStats.unpricedSwaps !== 1 ? 's' : ''} left out: no USD price was found for the asset they were paid in.
+                        </p>
+                      )}
                     </div>
                   </Card>
                 )}
@@ -487,7 +577,7 @@ const Dashboard = () => {
                   <MetricCard
                     title="Missed Since Sell"
                     value={`$${walletStats.totalRegret.toLocaleString()}`}
-                    subtitle="If still holding (current price)"
+                    subtitle="If sold at the post-sell peak"
                     icon={TrendingDown}
                     trend="down"
                     delay={0.1}
@@ -593,7 +683,7 @@ const Dashboard = () => {
                                        ${token.regretAmount.toLocaleString()}
                                      </p>
                                      <div className="flex items-center justify-end gap-3">
-                                       <p className="text-sm text-muted-foreground">At current price</p>
+                                       <p className="text-sm text-muted-foreground">At post-sell peak</p>
                                        {tokenMint && (
                                          <a
                                            href={`https://twitter.com/intent/tweet?text=${encodeURIComponent(`Check out my paperhands on ${token.symbol || (tokenMint ? `${tokenMint.slice(0,4)}...${tokenMint.slice(-4)}` : 'this token')} — missed $${token.regretAmount.toFixed(0)}.`)}&url=${typeof window !== 'undefined' ? encodeURIComponent(window.location.origin + '/dashboard') : ''}`}
@@ -616,6 +706,21 @@ const Dashboard = () => {
                   </Card>
                 </motion.div>
 
+                {/* Open Positions */}
+                {walletStats.holdings && (
+                  <HoldingsPanel holdings={walletStats.holdings} delay={1.15} />
+                )}
+
+                {/* Per-Token Breakdown */}
+                {walletStats.tokenStats && (
+                  <TokenStatsTable tokenStats={walletStats.tokenStats} delay={1.2} />
+                )}
+
+                {/* Where the trades happened */}
+                {walletStats.dexBreakdown && (
+                  <DexBreakdownCard dexBreakdown={walletStats.dexBreakdown} delay={1.25} />
+                )}
+
                 {/* Trade Events List - Simplified */}
                 <motion.div
                   initial={{ opacity: 0, y: 20 }}
@@ -673,10 +778,30 @@ const Dashboard = () => {
                               <span className="text-muted-foreground">Sell Price:</span>
                               <span className="font-mono font-medium">${event.sellPrice.toFixed(6)}</span>
                             </div>
+                            {event.sellValueSol !== undefined && (
+                              <div className="flex justify-between">
+                                <span className="text-muted-foreground">Sold For:</span>
+                                <span className="font-mono font-medium">{event.sellValueSol.toFixed(4)} SOL</span>
+                              </div>
+                            )}
                             <div className="flex justify-between">
-                              <span className="text-muted-foreground">Current:</span>
+                              <span className="text-muted-foreground">Peak{event.peakDate ? ` (${event.peakDate})` : ''}:</span>
                               <span className="font-mono font-medium text-primary">${event.peakPrice.toFixed(6)}</span>
                             </div>
+                            {event.currentPrice !== undefined && (
+                              <div className="flex justify-between">
+                                <span className="text-muted-foreground">Current:</span>
+                                <span
+                                  className="font-mono font-medium"
+                                  title={event.priceSource ? `Source: ${event.priceSource}, ${event.priceConfidence ?? 'unknown'} confidence` : undefined}
+                                >
+                                  {event.priceConfidence === 'low' && (
+                                    <span className="mr-1 text-xs font-sans text-amber-400">low confidence</span>
+                                  )}
+                                  ${event.currentPrice.toFixed(6)}
+                                </span>
+                              </div>
+                            )}
                             <div className="flex justify-between border-t border-border pt-2">
                               <span className="text-muted-foreground">Realized PnL:</span>
                               <span className={`font-mono font-semibold ${event.realizedProfit >= 0 ? 'text-success' : 'text-destructive'}`}>
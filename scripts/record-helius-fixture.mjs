@@ -0,0 +1,111 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// Records a wallet's Helius Enhanced transaction pages (plus token metadata) to disk
+// so the analysis can be replayed offline with createFixtureSource().
+//
+// Usage: HELIUS_API_KEY=... node scripts/record-helius-fixture.mjs <wallet> <outDir> [daysBack]
+
+const HELIUS_API_KEY = process.env.HELIUS_API_KEY ?? "";
+const PAGE_SIZE = 100;
+
+const [walletAddress, outDir, daysBackArg] = process.argv.slice(2);
+
+async function fetchPage(before) {
+  const url = new URL(`https://api.helius.xyz/v0/addresses/${walletAddress}/transactions`);
+  url.searchParams.set("api-key", HELIUS_API_KEY);
+  url.searchParams.set("limit", PAGE_SIZE.toString());
+  if (before) url.searchParams.set("before", before);
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Helius HTTP error ${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+async function fetchTokenMetadata(mints) {
+  const tokens = {};
+  for (let i = 0; i < mints.length; i += 1000) {
+    const response = await fetch(`https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: "fixture",
+        method: "getAssetBatch",
+        params: { ids: mints.slice(i, i + 1000) },
+      }),
+    });
+    const { result } = await response.json();
+    for (const asset of result ?? []) {
+      if (!asset?.id) continue;
+      const logo = asset.content?.links?.image;
+      tokens[asset.id] = {
+        symbol: asset.content?.metadata?.symbol || asset.id.slice(0, 6),
+        name: asset.content?.metadata?.name || "Unknown Token",
+        logo,
+        logos: logo ? [logo] : undefined,
+      };
+    }
+  }
+  return tokens;
+}
+
+async function main() {
+  if (!walletAddress || !outDir) {
+    console.error("Usage: node scripts/record-helius-fixture.mjs <wallet> <outDir> [daysBack]");
+    process.exit(1);
+  }
+  if (!HELIUS_API_KEY) {
+    console.error("HELIUS_API_KEY is not set");
+    process.exit(1);
+  }
+
+  const recordedAt = new Date();
+  const daysBack = daysBackArg ? Number(daysBackArg) : undefined;
+  const cutoffTime = daysBack ? Math.floor(recordedAt.getTime() / 1000) - daysBack * 24 * 60 * 60 : 0;
+
+  await mkdir(outDir, { recursive: true });
+
+  const mints = new Set();
+  let before;
+  let pageNumber = 0;
+
+  while (true) {
+    const page = await fetchPage(before);
+    if (!Array.isArray(page) || page.length === 0) break;
+
+    pageNumber++;
+    const fileName = `page-${String(pageNumber).padStart(4, "0")}.json`;
+    await writeFile(path.join(outDir, fileName), JSON.stringify(page, null, 2));
+    console.log(`Saved ${fileName} (${page.length} transactions)`);
+
+    for (const tx of page) {
+      for (const transfer of tx.tokenTransfers ?? []) {
+        if (transfer.mint) mints.add(transfer.mint);
+      }
+    }
+
+    const oldest = page[page.length - 1];
+    if (page.length < PAGE_SIZE || (cutoffTime > 0 && (oldest?.timestamp ?? 0) < cutoffTime)) break;
+    before = oldest.signature;
+  }
+
+  const tokens = await fetchTokenMetadata(Array.from(mints));
+  await writeFile(path.join(outDir, "tokens.json"), JSON.stringify(tokens, null, 2));
+  await writeFile(
+    path.join(outDir, "manifest.json"),
+    JSON.stringify({ walletAddress, recordedAt: recordedAt.toISOString(), daysBack }, null, 2)
+  );
+
+  console.log(`Recorded ${pageNumber} pages and ${Object.keys(tokens).length} tokens to ${outDir}`);
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -1,5 +1,7 @@
 import { motion } from "framer-motion";
 import { useEffect, useState } from "react";
+import { Progress } from "@/components/ui/progress";
+import type { ScanProgressEvent } from "@/types/progress";
 
 const SCAN_MESSAGES = [
   "Checking wallet activity…",
@@ -8,7 +10,39 @@ const SCAN_MESSAGES = [
   "Reviewing past trades…",
 ];
 
-export const AnimatedLoader = () => {
+const formatEta = (ms: number) => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return seconds < 60 ? `~${seconds}s left` : `~${Math.round(seconds / 60)}m left`;
+};
+
+interface ScanProgressBarProps {
+  progress: ScanProgressEvent;
+  className?: string;
+}
+
+/** Percent bar with counts and ETA, also shown on its own above live partial results */
+export const ScanProgressBar = ({ progress, className = "" }: ScanProgressBarProps) => (
+  <div className={`w-full space-y-2 ${className}`}>
+    <Progress value={progress.percent} className="h-2" />
+    <div className="flex justify-between text-xs text-muted-foreground">
+      <span>
+        {progress.counts.transactions.toLocaleString()} txs · {progress.counts.swaps.toLocaleString()} trades
+        {progress.counts.mintsTotal > 0 && ` · ${progress.counts.mintsPriced}/${progress.counts.mintsTotal} tokens priced`}
+      </span>
+      <span>
+        {Math.round(progress.percent)}%
+        {progress.etaMs !== undefined && ` · ${formatEta(progress.etaMs)}`}
+      </span>
+    </div>
+  </div>
+);
+
+interface AnimatedLoaderProps {
+  /** Live scan progress; without it the loader rotates generic messages */
+  progress?: ScanProgressEvent | null;
+}
+
+export const AnimatedLoader = ({ progress }: AnimatedLoaderProps = {}) => {
   const [messageIndex, setMessageIndex] = useState(0);
 
   useEffect(() => {
@@ -57,19 +91,21 @@ export const AnimatedLoader = () => {
         ))}
       </div>
 
-      {/* Rotating message */}
+      {/* Live progress, or a rotating message until the first event arrives */}
       <div className="h-8 flex items-center justify-center">
         <motion.span
-          key={messageIndex}
+          key={progress ? progress.message : messageIndex}
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
           exit={{ opacity: 0, y: -10 }}
           transition={{ duration: 0.3, ease: "easeOut" }}
           className="text-muted-foreground text-lg"
         >
-          {SCAN_MESSAGES[messageIndex]}
+          {progress ? progress.message : SCAN_MESSAGES[messageIndex]}
         </motion.span>
       </div>
+
+      {progress && <ScanProgressBar progress={progress} className="max-w-md" />}
     </motion.div>
   );
 };
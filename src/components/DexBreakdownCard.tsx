@@ -0,0 +1,53 @@
+import { motion } from "framer-motion";
+import { Card } from "./ui/card";
+import { Progress } from "./ui/progress";
+import { DexBreakdown } from "@/types/paperhands";
+import { formatNumberShort } from "@/lib/utils";
+
+interface DexBreakdownCardProps {
+  dexBreakdown: DexBreakdown[];
+  delay?: number;
+}
+
+export const DexBreakdownCard = ({ dexBreakdown, delay = 0 }: DexBreakdownCardProps) => {
+  if (dexBreakdown.length === 0) return null;
+
+  const totalVolume = dexBreakdown.reduce((sum, dex) => sum + dex.volume, 0);
+  const totalTrades = dexBreakdown.reduce((sum, dex) => sum + dex.trades, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+    >
+      <Card className="card-glass noise-texture p-6">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold">Where They Traded</h2>
+          <p className="text-sm text-muted-foreground">Share of trading volume by DEX</p>
+        </div>
+
+        <div className="space-y-4">
+          {dexBreakdown.map((dex) => {
+            // Fall back to trade share when no trade could be valued
+            const share = totalVolume > 0
+              ? (dex.volume / totalVolume) * 100
+              : (dex.trades / totalTrades) * 100;
+
+            return (
+              <div key={dex.dex}>
+                <div className="mb-1 flex items-baseline justify-between gap-4 text-sm">
+                  <span className="font-semibold">{dex.dex}</span>
+                  <span className="font-mono text-muted-foreground">
+                    ${formatNumberShort(dex.volume)} · {dex.buys} buys / {dex.sells} sells
+                  </span>
+                </div>
+                <Progress value={share} className="h-2" />
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
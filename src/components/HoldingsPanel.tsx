@@ -0,0 +1,90 @@
+import { motion } from "framer-motion";
+import { Card } from "./ui/card";
+import TokenLogo from "./TokenLogo";
+import { WalletHoldings } from "@/types/paperhands";
+import { formatNumberShort } from "@/lib/utils";
+
+interface HoldingsPanelProps {
+  holdings: WalletHoldings;
+  delay?: number;
+}
+
+// The mirror image of paperhands: bags still held, and how far they've fallen from the top
+export const HoldingsPanel = ({ holdings, delay = 0 }: HoldingsPanelProps) => {
+  if (holdings.positions.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+    >
+      <Card className="card-glass noise-texture p-6">
+        <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold">Still Holding</h2>
+            <p className="text-sm text-muted-foreground">Open positions at current prices</p>
+          </div>
+          <div className="text-right">
+            <p className={`text-2xl font-black ${holdings.totalUnrealizedProfit >= 0 ? "text-success" : "text-destructive"}`}>
+              {holdings.totalUnrealizedProfit >= 0 ? "+" : "-"}${formatNumberShort(Math.abs(holdings.totalUnrealizedProfit))}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Unrealized on ${formatNumberShort(holdings.totalCostBasis)} cost basis
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {holdings.positions.map((position) => (
+            <div
+              key={position.tokenMint}
+              className="flex items-center justify-between gap-4 rounded-xl border border-border bg-background/50 p-4"
+            >
+              <div className="flex items-center gap-3">
+                <TokenLogo
+                  mint={position.tokenMint}
+                  preferredUrls={position.tokenLogos ?? (position.tokenLogo ? [position.tokenLogo] : undefined)}
+                  alt={`${position.tokenSymbol} logo`}
+                  className="h-8 w-8 rounded-full border border-border object-cover"
+                />
+                <div>
+                  <a
+                    href={`https://dexscreener.com/solana/${position.tokenMint}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-bold hover:text-primary transition-colors hover:underline"
+                  >
+                    {position.tokenSymbol}
+                  </a>
+                  <p className="text-xs text-muted-foreground">Holding since {position.firstBuyDate}</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-6 text-right text-sm">
+                <div>
+                  <p className="text-muted-foreground">Cost / Value</p>
+                  <p className="font-mono">
+                    ${formatNumberShort(position.costBasis)} / ${formatNumberShort(position.currentValue)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Unrealized</p>
+                  <p className={`font-mono font-semibold ${position.unrealizedProfit >= 0 ? "text-success" : "text-destructive"}`}>
+                    {position.unrealizedProfit >= 0 ? "+" : ""}{position.unrealizedPercent.toFixed(0)}%
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">From Peak</p>
+                  <p className={`font-mono font-semibold ${position.drawdownFromPeak >= 50 ? "text-destructive" : "text-foreground"}`}>
+                    -{position.drawdownFromPeak.toFixed(0)}%
+                  </p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
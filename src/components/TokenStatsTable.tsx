@@ -0,0 +1,133 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Card } from "./ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import TokenLogo from "./TokenLogo";
+import { TokenStats } from "@/types/paperhands";
+import { formatNumberShort } from "@/lib/utils";
+
+type SortKey = "symbol" | "buys" | "sells" | "avgEntry" | "avgExit" | "realized" | "unrealized" | "regret";
+
+const COLUMNS: Array<{ key: SortKey; label: string; numeric: boolean }> = [
+  { key: "symbol", label: "Token", numeric: false },
+  { key: "buys", label: "Buys", numeric: true },
+  { key: "sells", label: "Sells", numeric: true },
+  { key: "avgEntry", label: "Avg Entry", numeric: true },
+  { key: "avgExit", label: "Avg Exit", numeric: true },
+  { key: "realized", label: "Realized", numeric: true },
+  { key: "unrealized", label: "Unrealized", numeric: true },
+  { key: "regret", label: "Missed", numeric: true },
+];
+
+const formatPrice = (value: number) => (value > 0 ? `$${value.toPrecision(4)}` : "—");
+
+const formatPnl = (value: number) =>
+  `${value >= 0 ? "+" : "-"}$${formatNumberShort(Math.abs(value))}`;
+
+interface TokenStatsTableProps {
+  tokenStats: TokenStats[];
+  delay?: number;
+}
+
+export const TokenStatsTable = ({ tokenStats, delay = 0 }: TokenStatsTableProps) => {
+  const [sortKey, setSortKey] = useState<SortKey>("regret");
+  const [descending, setDescending] = useState(true);
+
+  const sorted = useMemo(() => {
+    const rows = [...tokenStats];
+    rows.sort((a, b) => {
+      const result = sortKey === "symbol"
+        ? a.symbol.localeCompare(b.symbol)
+        : a[sortKey] - b[sortKey];
+      return descending ? -result : result;
+    });
+    return rows;
+  }, [tokenStats, sortKey, descending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key !== "symbol");
+    }
+  };
+
+  if (tokenStats.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+    >
+      <Card className="card-glass noise-texture p-6">
+        <h2 className="mb-6 text-2xl font-bold">Every Token Traded</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {COLUMNS.map((column) => (
+                <TableHead
+                  key={column.key}
+                  onClick={() => handleSort(column.key)}
+                  className={`cursor-pointer select-none hover:text-foreground ${column.numeric ? "text-right" : ""}`}
+                >
+                  <span className="inline-flex items-center gap-1">
+                    {column.label}
+                    {sortKey === column.key && (descending
+                      ? <ArrowDown className="h-3 w-3" />
+                      : <ArrowUp className="h-3 w-3" />)}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((token) => (
+              <TableRow key={token.tokenMint ?? token.symbol}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {token.tokenMint && (
+                      <TokenLogo
+                        mint={token.tokenMint}
+                        preferredUrls={token.tokenLogos ?? (token.tokenLogo ? [token.tokenLogo] : undefined)}
+                        alt={`${token.symbol} logo`}
+                        className="h-6 w-6 rounded-full border border-border object-cover"
+                      />
+                    )}
+                    {token.tokenMint ? (
+                      <a
+                        href={`https://dexscreener.com/solana/${token.tokenMint}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-semibold hover:text-primary hover:underline"
+                      >
+                        {token.symbol}
+                      </a>
+                    ) : (
+                      <span className="font-semibold">{token.symbol}</span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right font-mono">{token.buys}</TableCell>
+                <TableCell className="text-right font-mono">{token.sells}</TableCell>
+                <TableCell className="text-right font-mono">{formatPrice(token.avgEntry)}</TableCell>
+                <TableCell className="text-right font-mono">{formatPrice(token.avgExit)}</TableCell>
+                <TableCell className={`text-right font-mono ${token.realized >= 0 ? "text-success" : "text-destructive"}`}>
+                  {formatPnl(token.realized)}
+                </TableCell>
+                <TableCell className={`text-right font-mono ${token.unrealized >= 0 ? "text-success" : "text-destructive"}`}>
+                  {formatPnl(token.unrealized)}
+                </TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  ${formatNumberShort(token.regret)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+    </motion.div>
+  );
+};
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import type { AnalysisOptions, CostBasisMethod, ReceivedCostBasis } from "@/types/paperhands";
+
+export const COST_BASIS_METHODS: Record<CostBasisMethod, { label: string; description: string }> = {
+  fifo: { label: "FIFO", description: "First in, first out" },
+  lifo: { label: "LIFO", description: "Last in, first out" },
+  average: { label: "Average", description: "Average cost of all held lots" },
+  hifo: { label: "HIFO", description: "Highest cost lots sold first" },
+};
+
+export const DEFAULT_COST_BASIS: CostBasisMethod = "fifo";
+
+export const RECEIVED_COST_BASIS: Record<ReceivedCostBasis, { label: string; description: string }> = {
+  zero: { label: "Zero", description: "Airdrops and transfers in cost nothing" },
+  market: { label: "Market", description: "Valued at the price when they arrived" },
+};
+
+export const DEFAULT_RECEIVED_COST_BASIS: ReceivedCostBasis = "zero";
+
+export function isCostBasisMethod(value: unknown): value is CostBasisMethod {
+  return typeof value === "string" && Object.hasOwn(COST_BASIS_METHODS, value);
+}
+
+export const costBasisMethodSchema = z.enum(["fifo", "lifo", "average", "hifo"]);
+
+// Declared plus detected wallets merged into one analysis
+export const MAX_LINKED_WALLETS = 10;
+
+// Window of a queued scan that doesn't ask for one
+export const DEFAULT_SCAN_DAYS_BACK = 30;
+
+const solanaAddressSchema = z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, "Invalid Solana address");
+
+export const analysisOptionsSchema = z
+  .object({
+    daysBack: z.number().int().positive().max(3650).optional(),
+    costBasis: costBasisMethodSchema.default(DEFAULT_COST_BASIS),
+    // Lots for airdropped/transferred-in tokens start at zero cost or the price on arrival
+    receivedCostBasis: z.enum(["zero", "market"]).default(DEFAULT_RECEIVED_COST_BASIS),
+    // Sells only become events when regret or realized loss reaches this many USD
+    minEventUsd: z.number().nonnegative().default(100),
+    // Fetching stops here and partial results are returned
+    timeoutMs: z.number().int().min(5_000).max(300_000).default(90_000),
+    heliusPageSize: z.number().int().min(100).max(1000).default(500),
+    rpcPageSize: z.number().int().min(100).max(1000).default(1000),
+    // paperhandsScore = regret / |realized| * scoreScale, capped at 100
+    scoreScale: z.number().positive().max(1000).default(10),
+    includeRpcFallback: z.boolean().default(false),
+    // Reuse stored swaps and only fetch what's newer (server only, see services/swap-cache)
+    useSwapCache: z.boolean().default(true),
+    // Wallets analyzed as one trader; transfers between them aren't exits
+    linkedWallets: z.array(solanaAddressSchema).max(MAX_LINKED_WALLETS).default([]),
+    detectLinkedWallets: z.boolean().default(false),
+  })
+  .strict();
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = analysisOptionsSchema.parse({});
+
+/**
+ * Validate and fill defaults; throws a readable error for bad input
+ */
+export function resolveAnalysisOptions(input: unknown = {}): AnalysisOptions {
+  const parsed = analysisOptionsSchema.safeParse(input ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "options"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid analysis options: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Options for a queued scan: the stored options column, with the days_back and
+ * cost_basis columns taking precedence (older jobs only have those)
+ */
+export function scanJobAnalysisOptions(job: {
+  days_back: number | null;
+  cost_basis: string;
+  options: unknown;
+}): AnalysisOptions {
+  const stored = job.options && typeof job.options === "object" && !Array.isArray(job.options)
+    ? job.options
+    : {};
+  return resolveAnalysisOptions({
+    ...stored,
+    daysBack: job.days_back ?? DEFAULT_SCAN_DAYS_BACK,
+    costBasis: isCostBasisMethod(job.cost_basis) ? job.cost_basis : DEFAULT_COST_BASIS,
+  });
+}
+
+/**
+ * The options that change an analysis' numbers, as a stable string: scans with the
+ * same key can share an in-flight job or a cached result
+ */
+export function analysisResultKey(options: AnalysisOptions): string {
+  return JSON.stringify({
+    daysBack: options.daysBack ?? null,
+    costBasis: options.costBasis,
+    receivedCostBasis: options.receivedCostBasis,
+    minEventUsd: options.minEventUsd,
+    scoreScale: options.scoreScale,
+    linkedWallets: Array.from(new Set(options.linkedWallets)).sort(),
+    detectLinkedWallets: options.detectLinkedWallets,
+  });
+}
+
+/**
+ * Whether a result belongs in wallet_analyses, which keeps one row per wallet: the
+ * standard analysis (default window, thresholds and cost basis, no linked wallets).
+ * Other methods would overwrite it, so they are never cached.
+ */
+export function isCacheableAnalysis(options: AnalysisOptions): boolean {
+  const standard = resolveAnalysisOptions({ daysBack: DEFAULT_SCAN_DAYS_BACK });
+  return analysisResultKey(options) === analysisResultKey(standard);
+}
@@ -12,29 +12,113 @@ export const SOLANA_RPC_URL = '/api/rpc';
 // Helius API base - all calls should go through server-side routes
 export const HELIUS_API_BASE = '/api/helius';
 
-// Jupiter Price API - free, no key needed
-export const JUPITER_PRICE_API = 'https://price.jup.ag/v4/price';
+// Jupiter Price API V3 (free lite tier, no key needed); replaces the retired price.jup.ag/v4
+export const JUPITER_PRICE_API = 'https://lite-api.jup.ag/price/v3';
 
-// Birdeye API (public endpoints)
-export const BIRDEYE_API_KEY = ''; // Not needed for public endpoints
+// Birdeye API (every endpoint needs a key, see getBirdeyeApiKey)
 export const BIRDEYE_API_URL = 'https://public-api.birdeye.so';
 
+export type RateLimitedProvider =
+  | 'helius'
+  | 'solana-rpc'
+  | 'dexscreener'
+  | 'geckoterminal'
+  | 'jupiter'
+  | 'birdeye'
+  | 'token-list';
+
+export interface ProviderRateLimit {
+  /** Sustained requests per second */
+  ratePerSecond: number;
+  /** Requests that may go out back to back after an idle period */
+  burst: number;
+  /** Requests in flight at once */
+  maxConcurrent: number;
+}
+
+// Outbound budgets shared by every scan in a process (see services/request-scheduler),
+// set a little under each provider's published limit
+export const PROVIDER_RATE_LIMITS: Record<RateLimitedProvider, ProviderRateLimit> = {
+  helius: { ratePerSecond: 40, burst: 40, maxConcurrent: 10 }, // 50 req/s plan
+  'solana-rpc': { ratePerSecond: 4, burst: 10, maxConcurrent: 10 }, // public RPC: 40 req/10s per method
+  dexscreener: { ratePerSecond: 4, burst: 10, maxConcurrent: 5 }, // 300 req/min
+  geckoterminal: { ratePerSecond: 0.4, burst: 2, maxConcurrent: 2 }, // 30 req/min
+  jupiter: { ratePerSecond: 1, burst: 2, maxConcurrent: 2 }, // lite tier: 60 req/min
+  birdeye: { ratePerSecond: 1, burst: 1, maxConcurrent: 1 }, // public tier
+  'token-list': { ratePerSecond: 2, burst: 4, maxConcurrent: 2 },
+};
+
 // Known DEX Program IDs on Solana
 export const DEX_PROGRAMS = {
   JUPITER_V6: 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4',
   JUPITER_V4: 'JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB',
   RAYDIUM_V4: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
+  RAYDIUM_CLMM: 'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK',
+  RAYDIUM_CPMM: 'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C',
   ORCA_WHIRLPOOL: 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc',
   PHOENIX: 'PhoeNiXZ8ByJGLkxNfZRnkUfjvmuYqLR89jjFHGqdXY',
+  PUMP_FUN: '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P',
+  PUMPSWAP: 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA',
+  METEORA_DLMM: 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo',
+  METEORA_DAMM_V1: 'Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB',
+  METEORA_DAMM_V2: 'cpamdpZCGKUy5JxQXB4dcpGPiikHawvSWAd6mEn1sGG',
 };
 
+export const COMPUTE_BUDGET_PROGRAM = 'ComputeBudget111111111111111111111111111111';
+
+// Jito block engine tip accounts; a SOL transfer to one of these is a bundle tip
+export const JITO_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+];
+
 // Common token mints on Solana
 export const KNOWN_TOKENS = {
   SOL: 'So11111111111111111111111111111111111111112',
   USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
   USDT: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+  JITOSOL: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn',
+  MSOL: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',
 };
 
+export interface QuoteAsset {
+  mint: string;
+  symbol: string;
+  /** Valued at $1 without a price lookup */
+  usdPegged: boolean;
+}
+
+// "<mint>:<SYMBOL>,<mint>:<SYMBOL>" from NEXT_PUBLIC_QUOTE_MINTS
+function parseExtraQuoteAssets(value: string | undefined): QuoteAsset[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [mint, symbol] = entry.split(':').map(part => part.trim());
+      return { mint, symbol: symbol || mint.slice(0, 4), usdPegged: false };
+    });
+}
+
+// Assets that count as the value side of a swap rather than the traded token,
+// in order of preference when several of them move in one transaction.
+// WSOL stands in for native SOL.
+export const QUOTE_ASSETS: QuoteAsset[] = [
+  { mint: KNOWN_TOKENS.USDC, symbol: 'USDC', usdPegged: true },
+  { mint: KNOWN_TOKENS.USDT, symbol: 'USDT', usdPegged: true },
+  { mint: KNOWN_TOKENS.SOL, symbol: 'SOL', usdPegged: false },
+  { mint: KNOWN_TOKENS.JITOSOL, symbol: 'JitoSOL', usdPegged: false },
+  { mint: KNOWN_TOKENS.MSOL, symbol: 'mSOL', usdPegged: false },
+  ...parseExtraQuoteAssets(process.env.NEXT_PUBLIC_QUOTE_MINTS),
+];
+
 // Get Helius API key is now server-side only
 export function getHeliusApiKey(): string {
   // This should only be called from server-side code
@@ -44,3 +128,12 @@ export function getHeliusApiKey(): string {
   }
   return process.env.HELIUS_API_KEY ?? '';
 }
+
+/**
+ * Birdeye API key from the server environment; '' in the browser or when unset,
+ * in which case Birdeye isn't asked at all
+ */
+export function getBirdeyeApiKey(): string {
+  if (typeof window !== 'undefined') return '';
+  return process.env.BIRDEYE_API_KEY ?? '';
+}
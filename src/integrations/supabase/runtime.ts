@@ -0,0 +1,27 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./types";
+
+// Shared services (price history, swap/metadata/price caches) run both in route handlers
+// and in the browser. Those caches are trusted by later scans without checking, so their
+// tables only accept writes from the service role. This returns that client lazily on the
+// server, and null in the browser, without the key or when Supabase isn't configured, so
+// callers treat the database as an optional cache.
+
+let serviceClientPromise: Promise<SupabaseClient<Database> | null> | null = null;
+
+export function getServiceSupabaseClient(): Promise<SupabaseClient<Database> | null> {
+  if (typeof window !== "undefined") return Promise.resolve(null);
+
+  if (!serviceClientPromise) {
+    serviceClientPromise = (async () => {
+      try {
+        const { createServiceSupabaseClient } = await import("./server");
+        return createServiceSupabaseClient();
+      } catch (error) {
+        console.warn("Supabase unavailable, continuing without database cache:", error instanceof Error ? error.message : error);
+        return null;
+      }
+    })();
+  }
+  return serviceClientPromise;
+}
@@ -25,3 +25,17 @@ export const createServerSupabaseClient = () => {
     },
   });
 };
+
+/**
+ * Client with the service-role key only, or null when SUPABASE_SERVICE_ROLE_KEY isn't set
+ */
+export const createServiceSupabaseClient = () => {
+  if (!SUPABASE_SERVICE_ROLE_KEY) return null;
+
+  return createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+};
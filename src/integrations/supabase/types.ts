@@ -104,10 +104,13 @@ export type Database = {
       scan_jobs: {
         Row: {
           completed_at: string | null
+          cost_basis: string
           created_at: string
           days_back: number | null
           error: string | null
           id: string
+          options: Json | null
+          progress: Json | null
           queue_position: number | null
           result: Json | null
           started_at: string | null
@@ -116,10 +119,13 @@ export type Database = {
         }
         Insert: {
           completed_at?: string | null
+          cost_basis?: string
           created_at?: string
           days_back?: number | null
           error?: string | null
           id?: string
+          options?: Json | null
+          progress?: Json | null
           queue_position?: number | null
           result?: Json | null
           started_at?: string | null
@@ -128,10 +134,13 @@ export type Database = {
         }
         Update: {
           completed_at?: string | null
+          cost_basis?: string
           created_at?: string
           days_back?: number | null
           error?: string | null
           id?: string
+          options?: Json | null
+          progress?: Json | null
           queue_position?: number | null
           result?: Json | null
           started_at?: string | null
@@ -164,6 +173,45 @@ export type Database = {
         }
         Relationships: []
       }
+      token_price_candles: {
+        Row: {
+          bucket_start: string
+          close: number
+          created_at: string
+          high: number
+          low: number
+          mint: string
+          open: number
+          pool_address: string | null
+          resolution: string
+          volume: number | null
+        }
+        Insert: {
+          bucket_start: string
+          close: number
+          created_at?: string
+          high: number
+          low: number
+          mint: string
+          open: number
+          pool_address?: string | null
+          resolution: string
+          volume?: number | null
+        }
+        Update: {
+          bucket_start?: string
+          close?: number
+          created_at?: string
+          high?: number
+          low?: number
+          mint?: string
+          open?: number
+          pool_address?: string | null
+          resolution?: string
+          volume?: number | null
+        }
+        Relationships: []
+      }
       token_prices: {
         Row: {
           ath_price: number | null
@@ -171,6 +219,8 @@ export type Database = {
           mint: string
           price: number
           price_change_24h: number | null
+          price_confidence: string | null
+          price_source: string | null
           updated_at: string
         }
         Insert: {
@@ -179,6 +229,8 @@ export type Database = {
           mint: string
           price: number
           price_change_24h?: number | null
+          price_confidence?: string | null
+          price_source?: string | null
           updated_at?: string
         }
         Update: {
@@ -187,6 +239,8 @@ export type Database = {
           mint?: string
           price?: number
           price_change_24h?: number | null
+          price_confidence?: string | null
+          price_source?: string | null
           updated_at?: string
         }
         Relationships: []
@@ -197,6 +251,7 @@ export type Database = {
           analyzed_at: string
           avg_hold_time: number
           coins_traded: number
+          cost_basis_method: string
           created_at: string
           expires_at: string | null
           id: string
@@ -211,6 +266,7 @@ export type Database = {
           analyzed_at?: string
           avg_hold_time?: number
           coins_traded?: number
+          cost_basis_method?: string
           created_at?: string
           expires_at?: string | null
           id?: string
@@ -225,6 +281,7 @@ export type Database = {
           analyzed_at?: string
           avg_hold_time?: number
           coins_traded?: number
+          cost_basis_method?: string
           created_at?: string
           expires_at?: string | null
           id?: string
@@ -302,6 +359,57 @@ export type Database = {
         }
         Relationships: []
       }
+      wallet_swap_sync: {
+        Row: {
+          covered_from: string
+          swap_version: number
+          synced_at: string
+          wallet_address: string
+        }
+        Insert: {
+          covered_from: string
+          swap_version?: number
+          synced_at?: string
+          wallet_address: string
+        }
+        Update: {
+          covered_from?: string
+          swap_version?: number
+          synced_at?: string
+          wallet_address?: string
+        }
+        Relationships: []
+      }
+      wallet_swaps: {
+        Row: {
+          block_time: string
+          created_at: string
+          signature: string
+          swap: Json
+          swap_type: string
+          token_mint: string
+          wallet_address: string
+        }
+        Insert: {
+          block_time: string
+          created_at?: string
+          signature: string
+          swap: Json
+          swap_type: string
+          token_mint: string
+          wallet_address: string
+        }
+        Update: {
+          block_time?: string
+          created_at?: string
+          signature?: string
+          swap?: Json
+          swap_type?: string
+          token_mint?: string
+          wallet_address?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,53 @@
+/**
+ * Cancellation helpers
+ *
+ * A scan threads one AbortSignal from its caller (the dashboard's Cancel button,
+ * a route handler's request or a job worker) through every fetch, retry sleep and
+ * paging loop, so a cancelled scan stops making outbound requests.
+ */
+
+/**
+ * True for the error fetch/throwIfAborted raise once a signal aborts
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as Error)?.name === 'AbortError';
+}
+
+/**
+ * setTimeout as a promise that rejects as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * A signal that aborts when any of the given ones does (AbortSignal.any where available)
+ */
+export function anySignal(signals: Array<AbortSignal | undefined>): AbortSignal {
+  const present = signals.filter((signal): signal is AbortSignal => Boolean(signal));
+  if (typeof AbortSignal.any === 'function') return AbortSignal.any(present);
+
+  const controller = new AbortController();
+  for (const signal of present) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+}
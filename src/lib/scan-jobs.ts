@@ -0,0 +1,224 @@
+import type { Database } from "@/integrations/supabase/types";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ProgressCallback, ScanProgressEvent } from "@/types/progress";
+import type { WalletStats } from "@/types/paperhands";
+import { analyzePaperhands } from "@/services/paperhands";
+import { DEFAULT_COST_BASIS, isCacheableAnalysis, scanJobAnalysisOptions } from "@/config/analysis";
+import { anySignal } from "@/lib/abort";
+
+const CANCEL_POLL_MS = 2000;
+const PROGRESS_WRITE_MS = 2000;
+const ANALYSIS_CACHE_HOURS = 48;
+
+export type ScanJob = Database["public"]["Tables"]["scan_jobs"]["Row"];
+
+export type ScanJobOutcome =
+  | { status: "complete"; result: WalletStats }
+  | { status: "failed"; error: string }
+  | { status: "cancelled"; error: string };
+
+/** What a running job publishes to its subscribers (see subscribeToScanJob) */
+export type ScanJobEvent =
+  | { type: "progress"; progress: ScanProgressEvent }
+  | { type: "partial"; stats: WalletStats }
+  | { type: "done"; outcome: ScanJobOutcome };
+
+export type ScanJobListener = (event: ScanJobEvent) => void;
+
+// Jobs running in this process, so /api/scan/stream can follow one started elsewhere
+const runningJobs = new Map<string, Set<ScanJobListener>>();
+
+/**
+ * Abort `controller` once the job is marked cancelled (see /api/scan/cancel).
+ * Returns a function that stops watching; call it when the job settles.
+ */
+export const watchJobCancellation = (
+  supabase: SupabaseClient<Database>,
+  jobId: string,
+  controller: AbortController
+): (() => void) => {
+  const interval = setInterval(async () => {
+    const { data, error } = await supabase
+      .from("scan_jobs")
+      .select("status")
+      .eq("id", jobId)
+      .maybeSingle();
+
+    if (error) {
+      console.warn("Failed to check scan job status:", error.message);
+      return;
+    }
+    if (data?.status === "cancelled") {
+      clearInterval(interval);
+      controller.abort();
+    }
+  }, CANCEL_POLL_MS);
+
+  return () => clearInterval(interval);
+};
+
+/**
+ * onProgress for a scan job: stores the latest event in scan_jobs.progress (at most
+ * every PROGRESS_WRITE_MS, and on every phase change) and logs phase changes.
+ */
+export const createJobProgressWriter = (
+  supabase: SupabaseClient<Database>,
+  jobId: string
+): ProgressCallback => {
+  let lastPhase: ScanProgressEvent["phase"] | null = null;
+  let lastWriteAt = 0;
+  let writes = Promise.resolve();
+
+  return (event) => {
+    const phaseChanged = event.phase !== lastPhase;
+    if (phaseChanged) {
+      console.log(`Scan ${jobId}: ${event.phase} (${event.percent}%) - ${event.message}`);
+      lastPhase = event.phase;
+    }
+
+    const now = Date.now();
+    if (!phaseChanged && now - lastWriteAt < PROGRESS_WRITE_MS) return;
+    lastWriteAt = now;
+
+    // Chained so a slow write can't land after a newer one
+    writes = writes.then(async () => {
+      const { error } = await supabase
+        .from("scan_jobs")
+        .update({ progress: JSON.parse(JSON.stringify(event)) })
+        .eq("id", jobId);
+
+      if (error) {
+        console.warn("Failed to store scan job progress:", error.message);
+      }
+    });
+  };
+};
+
+/**
+ * Follow a job running in this process. Returns an unsubscribe function, or null
+ * when the job isn't running here (another instance, or not started yet).
+ */
+export const subscribeToScanJob = (
+  jobId: string,
+  listener: ScanJobListener
+): (() => void) | null => {
+  const listeners = runningJobs.get(jobId);
+  if (!listeners) return null;
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const settleJob = async (
+  supabase: SupabaseClient<Database>,
+  jobId: string,
+  update: Database["public"]["Tables"]["scan_jobs"]["Update"]
+) => {
+  // Never overwrite a job that was cancelled meanwhile
+  const { error } = await supabase
+    .from("scan_jobs")
+    .update({ ...update, completed_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("status", "processing");
+
+  if (error) {
+    console.warn(`Failed to settle scan job ${jobId}:`, error.message);
+  }
+};
+
+const cacheWalletAnalysis = async (
+  supabase: SupabaseClient<Database>,
+  walletAddress: string,
+  result: WalletStats
+) => {
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + ANALYSIS_CACHE_HOURS);
+
+  const { error } = await supabase
+    .from("wallet_analyses")
+    .upsert({
+      wallet_address: walletAddress,
+      total_regret: result.totalRegret ?? 0,
+      total_events: result.totalEvents ?? 0,
+      coins_traded: result.coinsTraded ?? 0,
+      win_rate: result.winRate ?? 0,
+      avg_hold_time: result.avgHoldTime ?? 0,
+      top_regretted_tokens: result.topRegrettedTokens ?? [],
+      analysis_date_range: result.analysisDateRange ?? null,
+      cost_basis_method: result.costBasisMethod ?? DEFAULT_COST_BASIS,
+      analyzed_at: new Date().toISOString(),
+      expires_at: expiresAt.toISOString(),
+    }, {
+      onConflict: "wallet_address",
+    });
+
+  if (error) {
+    console.warn("Failed to cache wallet analysis:", error.message);
+  }
+};
+
+/**
+ * Run a job the caller has claimed (try_claim_job) to the end: analyze, store the
+ * result on the job and, for standard scans (isCacheableAnalysis), in wallet_analyses
+ * for ANALYSIS_CACHE_HOURS, or mark it failed. The job stops when it's cancelled via
+ * /api/scan/cancel, or when `signal` aborts (a caller that owns the run went away),
+ * in which case it's recorded as cancelled. Callers that only watch a job must not
+ * pass their connection's signal; follow it with subscribeToScanJob instead.
+ *
+ * Progress goes to scan_jobs.progress; progress, partial results and the outcome
+ * are also published to `onEvent` and to anyone following via subscribeToScanJob.
+ */
+export const runScanJob = async (
+  supabase: SupabaseClient<Database>,
+  job: ScanJob,
+  { signal, onEvent }: { signal?: AbortSignal; onEvent?: ScanJobListener } = {}
+): Promise<ScanJobOutcome> => {
+  const listeners = new Set<ScanJobListener>(onEvent ? [onEvent] : []);
+  const publish = (event: ScanJobEvent) => listeners.forEach((listener) => listener(event));
+  runningJobs.set(job.id, listeners);
+
+  const controller = new AbortController();
+  const stopWatching = watchJobCancellation(supabase, job.id, controller);
+  const writeProgress = createJobProgressWriter(supabase, job.id);
+
+  let outcome: ScanJobOutcome;
+  try {
+    const options = scanJobAnalysisOptions(job);
+    const result = await analyzePaperhands(job.wallet_address, {
+      ...options,
+      signal: anySignal([controller.signal, signal]),
+      onProgress: (progress) => {
+        writeProgress(progress);
+        publish({ type: "progress", progress });
+      },
+      onPartialResult: (stats) => publish({ type: "partial", stats }),
+    });
+
+    await settleJob(supabase, job.id, {
+      status: "complete",
+      result: JSON.parse(JSON.stringify(result)),
+    });
+    if (isCacheableAnalysis(options)) {
+      await cacheWalletAnalysis(supabase, job.wallet_address, result);
+    }
+    outcome = { status: "complete", result };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      outcome = { status: "cancelled", error: "Cancelled by user" };
+    } else if (signal?.aborted) {
+      // Nobody is waiting for a disconnected caller's scan; record it as cancelled
+      outcome = { status: "cancelled", error: "Client disconnected" };
+      await settleJob(supabase, job.id, { status: "cancelled", error: outcome.error });
+    } else {
+      outcome = { status: "failed", error: error instanceof Error ? error.message : "Unknown error" };
+      await settleJob(supabase, job.id, { status: "failed", error: outcome.error });
+    }
+  } finally {
+    stopWatching();
+    runningJobs.delete(job.id);
+  }
+
+  publish({ type: "done", outcome });
+  return outcome;
+};
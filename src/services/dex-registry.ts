@@ -0,0 +1,223 @@
+/**
+ * DEX Program Registry
+ *
+ * Known swap programs, each with a decoder for its instruction data. A decoder
+ * returns the swap instruction name, or null for anything that isn't a swap
+ * (liquidity adds/removes, pool creation, ...), so LP actions aren't read as trades.
+ * Used to label swaps by venue in both the Enhanced and the RPC parsers.
+ */
+
+import bs58 from 'bs58';
+import { DEX_PROGRAMS } from '@/config/api';
+
+export const UNKNOWN_DEX = 'Unknown';
+
+export interface DexProgram {
+  programId: string;
+  label: string;
+  /** Helius Enhanced `source` values for this venue */
+  heliusSources?: string[];
+  decode(data: Uint8Array): string | null;
+}
+
+/**
+ * A program invocation in execution order (top-level or inner), data base58-encoded
+ */
+export interface ProgramInstruction {
+  programId: string;
+  data?: string;
+}
+
+export interface DecodedSwapInstruction {
+  program: DexProgram;
+  instruction: string;
+}
+
+/**
+ * Anchor programs: the first 8 bytes are sha256("global:<name>")[0..8]
+ */
+function anchorDecoder(instructions: Record<string, string>) {
+  return (data: Uint8Array): string | null => {
+    if (data.length < 8) return null;
+    const discriminator = Array.from(data.subarray(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+    return instructions[discriminator] ?? null;
+  };
+}
+
+/**
+ * Native programs with a one-byte instruction tag
+ */
+function tagDecoder(instructions: Record<number, string>) {
+  return (data: Uint8Array): string | null => (data.length > 0 ? instructions[data[0]] ?? null : null);
+}
+
+const JUPITER_ROUTES = {
+  e517cb977ae3ad2a: 'route',
+  c1209b3341d69c81: 'shared_accounts_route',
+  d033ef977b2bed5c: 'exact_out_route',
+  b0d169a89a7d453e: 'shared_accounts_exact_out_route',
+  '96564774a75d0e68': 'route_with_token_ledger',
+  e6798f50779f6aaa: 'shared_accounts_route_with_token_ledger',
+};
+
+const PUMP_TRADES = {
+  '66063d1201daebea': 'buy',
+  '38fc74089edfcd5f': 'buy_exact_sol_in',
+  '33e685a4017f83ad': 'sell',
+};
+
+const DEX_PROGRAM_LIST: DexProgram[] = [
+  {
+    programId: DEX_PROGRAMS.JUPITER_V6,
+    label: 'Jupiter',
+    heliusSources: ['JUPITER'],
+    decode: anchorDecoder(JUPITER_ROUTES),
+  },
+  {
+    programId: DEX_PROGRAMS.JUPITER_V4,
+    label: 'Jupiter',
+    decode: anchorDecoder(JUPITER_ROUTES),
+  },
+  {
+    programId: DEX_PROGRAMS.PUMP_FUN,
+    label: 'pump.fun',
+    heliusSources: ['PUMP_FUN'],
+    decode: anchorDecoder(PUMP_TRADES),
+  },
+  {
+    programId: DEX_PROGRAMS.PUMPSWAP,
+    label: 'PumpSwap',
+    heliusSources: ['PUMP_AMM'],
+    decode: anchorDecoder(PUMP_TRADES),
+  },
+  {
+    programId: DEX_PROGRAMS.RAYDIUM_V4,
+    label: 'Raydium AMM',
+    heliusSources: ['RAYDIUM'],
+    decode: tagDecoder({ 9: 'swap_base_in', 11: 'swap_base_out' }),
+  },
+  {
+    programId: DEX_PROGRAMS.RAYDIUM_CLMM,
+    label: 'Raydium CLMM',
+    decode: anchorDecoder({
+      f8c69e91e17587c8: 'swap',
+      '2b04ed0b1ac91e62': 'swap_v2',
+      '457d73daf5baf2c4': 'swap_router_base_in',
+    }),
+  },
+  {
+    programId: DEX_PROGRAMS.RAYDIUM_CPMM,
+    label: 'Raydium CPMM',
+    decode: anchorDecoder({
+      '8fbe5adac41e33de': 'swap_base_input',
+      '37d96256a34ab4ad': 'swap_base_output',
+    }),
+  },
+  {
+    programId: DEX_PROGRAMS.METEORA_DLMM,
+    label: 'Meteora DLMM',
+    heliusSources: ['METEORA'],
+    decode: anchorDecoder({
+      f8c69e91e17587c8: 'swap',
+      '414b3f4ceb5b5b88': 'swap2',
+      fa49652126cf4bb8: 'swap_exact_out',
+      '2bd7f784893cf351': 'swap_exact_out2',
+      '38ade6d0ade49ccd': 'swap_with_price_impact',
+      '4a62c0d6b1334b33': 'swap_with_price_impact2',
+    }),
+  },
+  {
+    programId: DEX_PROGRAMS.METEORA_DAMM_V1,
+    label: 'Meteora DAMM v1',
+    decode: anchorDecoder({ f8c69e91e17587c8: 'swap' }),
+  },
+  {
+    programId: DEX_PROGRAMS.METEORA_DAMM_V2,
+    label: 'Meteora DAMM v2',
+    decode: anchorDecoder({
+      f8c69e91e17587c8: 'swap',
+      '414b3f4ceb5b5b88': 'swap2',
+    }),
+  },
+  {
+    programId: DEX_PROGRAMS.ORCA_WHIRLPOOL,
+    label: 'Orca Whirlpool',
+    heliusSources: ['ORCA'],
+    decode: anchorDecoder({
+      f8c69e91e17587c8: 'swap',
+      '2b04ed0b1ac91e62': 'swap_v2',
+      c360ed6c44a2dbe6: 'two_hop_swap',
+      ba8fd11dfe02c275: 'two_hop_swap_v2',
+    }),
+  },
+  {
+    programId: DEX_PROGRAMS.PHOENIX,
+    label: 'Phoenix',
+    heliusSources: ['PHOENIX'],
+    decode: tagDecoder({ 0: 'swap', 1: 'swap_with_free_funds' }),
+  },
+];
+
+export const DEX_REGISTRY: ReadonlyMap<string, DexProgram> = new Map(
+  DEX_PROGRAM_LIST.map(program => [program.programId, program])
+);
+
+/**
+ * Decode one instruction; null when the program is unknown or it isn't a swap
+ */
+export function decodeSwapInstruction(instruction: ProgramInstruction): DecodedSwapInstruction | null {
+  const program = DEX_REGISTRY.get(instruction.programId);
+  if (!program || !instruction.data) return null;
+
+  try {
+    const name = program.decode(bs58.decode(instruction.data));
+    return name ? { program, instruction: name } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * First swap instruction in execution order. Aggregators come before the pools
+ * they route through, so a Jupiter route is labelled Jupiter.
+ */
+export function findSwapInstruction(instructions: ProgramInstruction[]): DecodedSwapInstruction | null {
+  for (const instruction of instructions) {
+    const decoded = decodeSwapInstruction(instruction);
+    if (decoded) return decoded;
+  }
+  return null;
+}
+
+/**
+ * Any instruction (swap or not) of a known DEX, e.g. to tell LP deposits from transfers
+ */
+export function touchesDexProgram(instructions: ProgramInstruction[]): boolean {
+  return instructions.some(instruction => DEX_REGISTRY.has(instruction.programId));
+}
+
+/**
+ * Top-level and inner instructions of a Helius Enhanced transaction, in execution order
+ */
+export function collectEnhancedInstructions(tx: any): ProgramInstruction[] {
+  const instructions: ProgramInstruction[] = [];
+  for (const ix of tx?.instructions ?? []) {
+    instructions.push({ programId: ix.programId, data: ix.data });
+    for (const inner of ix.innerInstructions ?? []) {
+      instructions.push({ programId: inner.programId, data: inner.data });
+    }
+  }
+  return instructions;
+}
+
+/**
+ * Venue label for a Helius Enhanced transaction: decoded program first, then tx.source
+ */
+export function resolveEnhancedDexLabel(tx: any): string {
+  const decoded = findSwapInstruction(collectEnhancedInstructions(tx));
+  if (decoded) return decoded.program.label;
+
+  const source = typeof tx?.source === 'string' ? tx.source : '';
+  const bySource = DEX_PROGRAM_LIST.find(program => program.heliusSources?.includes(source));
+  return bySource?.label ?? UNKNOWN_DEX;
+}
@@ -0,0 +1,122 @@
+/**
+ * Fixture Replay Source (Node only)
+ *
+ * Replays recorded Helius Enhanced pages from disk so analyzePaperhands can be
+ * run against a saved wallet with no network. Record fixtures with
+ * `node scripts/record-helius-fixture.mjs <wallet> <dir>`.
+ *
+ * Fixture directory layout:
+ * - manifest.json    { walletAddress, recordedAt }  (recordedAt anchors daysBack cutoffs)
+ * - page-0001.json   raw Helius Enhanced response pages, newest first
+ * - tokens.json      optional { [mint]: { symbol, name, logo?, logos? } }
+ *
+ * Kept out of ./transaction-sources so browser bundles never pull in `fs`.
+ */
+
+import { readFile, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import { applyQuoteUsdPrices, parseEnhancedTransaction, ParsedSwap } from './solana';
+import { TransactionSource } from './transaction-sources';
+
+interface FixtureManifest {
+  walletAddress?: string;
+  recordedAt?: string;
+}
+
+type FixtureTokenMetadata = Record<string, {
+  symbol: string;
+  name: string;
+  logo?: string;
+  logos?: string[];
+}>;
+
+const PAGE_FILE_PATTERN = /^page-\d+\.json$/;
+
+async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+export function createFixtureSource(fixtureDir: string): TransactionSource {
+  return {
+    name: `fixture:${path.basename(fixtureDir)}`,
+    fetchSwaps: async (walletAddress, { daysBack, onProgress, onBatch, untilSignature, signal }) => {
+      const manifest = await readJsonFile<FixtureManifest>(path.join(fixtureDir, 'manifest.json'), {});
+      if (manifest.walletAddress && manifest.walletAddress !== walletAddress) {
+        throw new Error(`Fixture ${fixtureDir} was recorded for ${manifest.walletAddress}, not ${walletAddress}`);
+      }
+
+      const tokens = await readJsonFile<FixtureTokenMetadata>(path.join(fixtureDir, 'tokens.json'), {});
+      const pageFiles = (await readdir(fixtureDir))
+        .filter(file => PAGE_FILE_PATTERN.test(file))
+        .sort();
+
+      if (pageFiles.length === 0) {
+        throw new Error(`No page-*.json files found in fixture ${fixtureDir}`);
+      }
+
+      // Cut off relative to when the fixture was recorded, not wall-clock now,
+      // so a replay produces the same window every time
+      const referenceMs = manifest.recordedAt ? new Date(manifest.recordedAt).getTime() : Date.now();
+      const cutoffTime = daysBack
+        ? Math.floor(referenceMs / 1000) - (daysBack * 24 * 60 * 60)
+        : 0;
+
+      const allSwaps: ParsedSwap[] = [];
+
+      for (let i = 0; i < pageFiles.length; i++) {
+        signal?.throwIfAborted();
+        const page = await readJsonFile<any[]>(path.join(fixtureDir, pageFiles[i]), []);
+        const batchSwaps: ParsedSwap[] = [];
+        let reachedCutoff = false;
+        let inWindow = 0;
+
+        for (const tx of page) {
+          if (untilSignature && tx.signature === untilSignature) {
+            reachedCutoff = true;
+            break;
+          }
+          if (cutoffTime > 0 && (tx.timestamp || 0) < cutoffTime) {
+            reachedCutoff = true;
+            break;
+          }
+          inWindow++;
+          if (tx.transactionError) continue;
+
+          for (const swap of parseEnhancedTransaction(tx, walletAddress)) {
+            const meta = tokens[swap.tokenMint];
+            if (meta) {
+              swap.tokenSymbol = meta.symbol;
+              swap.tokenName = meta.name;
+              swap.tokenLogo = meta.logo;
+              swap.tokenLogos = meta.logos ?? (meta.logo ? [meta.logo] : undefined);
+            }
+            batchSwaps.push(swap);
+          }
+        }
+
+        if (batchSwaps.length > 0) {
+          const pricedSwaps = await applyQuoteUsdPrices(batchSwaps, cutoffTime > 0 ? cutoffTime * 1000 : undefined, signal, onProgress);
+          allSwaps.push(...pricedSwaps);
+          onBatch?.(pricedSwaps, false);
+        }
+
+        onProgress?.({
+          phase: 'parsing',
+          message: `Replaying fixture page ${i + 1}/${pageFiles.length}... (${allSwaps.length} found)`,
+          add: { pages: 1, transactions: inWindow },
+          fraction: reachedCutoff ? 1 : (i + 1) / pageFiles.length,
+        });
+
+        if (reachedCutoff) break;
+      }
+
+      onBatch?.([], true);
+      return { swaps: allSwaps, complete: true };
+    },
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Helius Access Layer
+ *
+ * Works from both the browser and server route handlers:
+ * - Server: calls Helius directly using HELIUS_API_KEY
+ * - Browser: goes through the /api/helius proxy routes so the key never ships
+ */
+
+import { getHeliusApiKey } from '@/config/api';
+import { scheduledFetch } from './request-scheduler';
+
+const HELIUS_API_URL = 'https://api.helius.xyz/v0';
+const HELIUS_RPC_URL = 'https://mainnet.helius-rpc.com';
+
+/** Most ids DAS getAssetBatch accepts in one call */
+export const DAS_ASSET_BATCH_LIMIT = 1000;
+
+export class HeliusApiError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(status: number, message: string, details?: unknown) {
+    super(message);
+    this.name = 'HeliusApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * True when running inside a route handler / Node process rather than a browser tab
+ */
+export function isServerRuntime(): boolean {
+  return typeof window === 'undefined';
+}
+
+function requireServerApiKey(): string {
+  const apiKey = getHeliusApiKey();
+  if (!apiKey) {
+    throw new HeliusApiError(500, 'Helius API not configured');
+  }
+  return apiKey;
+}
+
+/**
+ * Fetch one page of Enhanced transactions for a wallet (newest first)
+ * `until` stops the page at that signature (exclusive)
+ */
+export async function fetchEnhancedTransactionsPage(
+  walletAddress: string,
+  params: { limit: number; before?: string; until?: string; signal?: AbortSignal }
+): Promise<any[]> {
+  let url: URL;
+
+  if (isServerRuntime()) {
+    url = new URL(`${HELIUS_API_URL}/addresses/${walletAddress}/transactions`);
+    url.searchParams.set('api-key', requireServerApiKey());
+  } else {
+    url = new URL('/api/helius/transactions', window.location.origin);
+    url.searchParams.set('wallet', walletAddress);
+  }
+
+  url.searchParams.set('limit', params.limit.toString());
+  if (params.before) {
+    url.searchParams.set('before', params.before);
+  }
+  if (params.until) {
+    url.searchParams.set('until', params.until);
+  }
+
+  // Transaction pages are the critical path of a scan, so they go ahead of metadata lookups
+  const response = await scheduledFetch('helius', url.toString(), { signal: params.signal }, { priority: 'high' });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => undefined);
+    throw new HeliusApiError(response.status, `HTTP error ${response.status}`, details);
+  }
+
+  return await response.json() as any[];
+}
+
+/**
+ * What the asset endpoints return per mint: the DAS fields a scan needs, normalized
+ */
+export interface HeliusAssetRecord {
+  symbol?: string;
+  name?: string;
+  /** Image URLs from the asset, best first (may be empty) */
+  logos: string[];
+  decimals?: number;
+  /** SPL Token or Token-2022 program id */
+  tokenProgram?: string;
+}
+
+function isUsableUrl(url: unknown): url is string {
+  return typeof url === 'string' && url.length > 5 && !url.includes('undefined');
+}
+
+/**
+ * Pick the fields of a raw DAS asset that the app uses
+ */
+export function normalizeHeliusAsset(asset: any): HeliusAssetRecord {
+  const symbol = asset?.symbol || asset?.content?.metadata?.symbol || asset?.token_info?.symbol;
+  const name = asset?.name || asset?.content?.metadata?.name;
+  const decimals = asset?.token_info?.decimals;
+
+  return {
+    symbol: typeof symbol === 'string' && symbol ? symbol : undefined,
+    name: typeof name === 'string' && name ? name : undefined,
+    logos: Array.from(new Set([
+      asset?.content?.links?.image,
+      asset?.image,
+      asset?.logo,
+    ].filter(isUsableUrl))),
+    decimals: typeof decimals === 'number' ? decimals : undefined,
+    tokenProgram: asset?.token_info?.token_program || undefined,
+  };
+}
+
+/**
+ * Fetch DAS assets for up to DAS_ASSET_BATCH_LIMIT mints in one getAssetBatch call
+ * (through POST /api/helius/assets in the browser). Mints Helius doesn't know are left out.
+ */
+export async function fetchHeliusAssetBatch(
+  tokenMints: string[],
+  signal?: AbortSignal
+): Promise<Record<string, HeliusAssetRecord>> {
+  if (tokenMints.length > DAS_ASSET_BATCH_LIMIT) {
+    throw new HeliusApiError(400, `getAssetBatch takes at most ${DAS_ASSET_BATCH_LIMIT} mints`);
+  }
+  if (tokenMints.length === 0) return {};
+
+  if (!isServerRuntime()) {
+    const response = await scheduledFetch('helius', '/api/helius/assets', {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ mints: tokenMints }),
+    });
+
+    if (!response.ok) {
+      throw new HeliusApiError(response.status, `Helius HTTP error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.assets ?? {};
+  }
+
+  const response = await scheduledFetch('helius', `${HELIUS_RPC_URL}/?api-key=${requireServerApiKey()}`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: '1',
+      method: 'getAssetBatch',
+      params: {
+        ids: tokenMints,
+        displayOptions: {
+          showCollectionMetadata: true,
+          showUnverifiedCollections: false,
+          showNativeBalance: false,
+          showInscription: false,
+        }
+      }
+    }),
+  });
+
+  if (!response.ok) {
+    throw new HeliusApiError(response.status, `Helius HTTP error: ${response.status}`);
+  }
+
+  const responseData = await response.json();
+  if (responseData.error) {
+    throw new HeliusApiError(502, `Helius API error: ${responseData.error.message || responseData.error}`, responseData.error);
+  }
+
+  const assets: Record<string, HeliusAssetRecord> = {};
+  const results: any[] = Array.isArray(responseData.result) ? responseData.result : [];
+  results.forEach((asset, index) => {
+    if (asset) assets[asset.id ?? tokenMints[index]] = normalizeHeliusAsset(asset);
+  });
+  return assets;
+}
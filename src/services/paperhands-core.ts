@@ -0,0 +1,798 @@
+/**
+ * Paperhands Analysis Core
+ *
+ * Deterministic, I/O-free half of the engine: swaps + prices in, WalletStats out.
+ * Prices come from a synchronous PriceProvider, so the same math runs on live
+ * scans (see ./paperhands for the fetching adapter), stored swaps, fixtures or
+ * inside a web worker. Nothing in here may touch the network or the database.
+ */
+
+import type { ParsedSwap } from './solana';
+import { findPeakSince, priceAt, PriceCandle } from './price-history';
+import { WalletStats, WalletHoldings, PaperhandsEvent, OpenPosition, TokenStats, CostBasisMethod, AnalysisOptions, DexBreakdown, FeeSummary, PriceConfidence, PriceSource } from '@/types/paperhands';
+import { resolveAnalysisOptions } from '@/config/analysis';
+import { toUiAmount } from './swap-legs';
+import { totalFeeLamports } from './swap-fees';
+import { isInternalTransfer, TransferKind } from './transfer-legs';
+
+export interface PriceQuality {
+  source: PriceSource;
+  confidence: PriceConfidence;
+}
+
+/**
+ * Synchronous price lookups for the analysis core
+ */
+export interface PriceProvider {
+  /** Latest USD price, 0 when unknown */
+  getCurrentPrice(tokenMint: string): number;
+  /** Latest market cap in USD, 0 when unknown */
+  getMarketCap(tokenMint: string): number;
+  /** Where the current price came from, undefined when unknown */
+  getPriceQuality?(tokenMint: string): PriceQuality | undefined;
+  /** Candles from the mint's first trade onwards, oldest first ([] when no history) */
+  getCandles(tokenMint: string): PriceCandle[];
+}
+
+/**
+ * Plain-data price inputs per mint (serializable, e.g. to post into a worker)
+ */
+export type PriceSnapshot = Record<string, {
+  currentPrice: number;
+  marketCap: number;
+  priceSource?: PriceSource;
+  priceConfidence?: PriceConfidence;
+  candles: PriceCandle[];
+}>;
+
+export function createSnapshotPriceProvider(snapshot: PriceSnapshot): PriceProvider {
+  return {
+    getCurrentPrice: (tokenMint) => snapshot[tokenMint]?.currentPrice ?? 0,
+    getMarketCap: (tokenMint) => snapshot[tokenMint]?.marketCap ?? 0,
+    getPriceQuality: (tokenMint) => {
+      const entry = snapshot[tokenMint];
+      return entry?.priceSource && entry.priceConfidence
+        ? { source: entry.priceSource, confidence: entry.priceConfidence }
+        : undefined;
+    },
+    getCandles: (tokenMint) => snapshot[tokenMint]?.candles ?? [],
+  };
+}
+
+export interface AnalyzeSwapsOptions extends Partial<AnalysisOptions> {
+  walletAddress: string;
+  /** "Now" for the analysis window and peak fallbacks (ms, defaults to Date.now()) */
+  asOf?: number;
+  /** Swaps are incomplete (the fetch timed out) */
+  isPartial?: boolean;
+}
+
+interface BuyRecord {
+  signature: string;
+  timestamp: number;
+  amountRaw: bigint;
+  amount: number;
+  price: number;
+  totalCost: number;
+  costSol?: number;
+}
+
+interface SellRecord {
+  signature: string;
+  timestamp: number;
+  amountRaw: bigint;
+  amount: number;
+  price: number;
+  totalValue: number;
+  valueSol?: number;
+}
+
+interface TransferRecord {
+  signature: string;
+  timestamp: number;
+  amountRaw: bigint;
+  kind: TransferKind;
+}
+
+interface TradePosition {
+  tokenMint: string;
+  tokenSymbol: string;
+  tokenName: string;
+  tokenLogo?: string;
+  tokenLogos?: string[];
+  decimals: number;
+  buys: BuyRecord[];
+  sells: SellRecord[];
+  /** Tokens that arrived without a buy (airdrops, transfers in) */
+  receives: TransferRecord[];
+  /** Tokens sent away without a sell */
+  sends: TransferRecord[];
+}
+
+const isTrade = (swap: ParsedSwap) => swap.type === 'buy' || swap.type === 'sell';
+const hasTrades = (position: TradePosition) => position.buys.length > 0 || position.sells.length > 0;
+
+/**
+ * Compute wallet stats from parsed swaps. Pure: same swaps, prices and options
+ * always give the same result. Swaps of options.linkedWallets may be mixed in;
+ * the cluster is analyzed as one trader.
+ */
+export function analyzeSwaps(
+  swaps: ParsedSwap[],
+  prices: PriceProvider,
+  { walletAddress, asOf = Date.now(), isPartial = false, ...rawOptions }: AnalyzeSwapsOptions
+): WalletStats {
+  const options = resolveAnalysisOptions(rawOptions);
+  const endDate = new Date(asOf);
+  const startDate = options.daysBack
+    ? new Date(asOf - options.daysBack * 24 * 60 * 60 * 1000)
+    : new Date(0);
+
+  // Linked wallets trade as one: their swaps share positions, and moving tokens
+  // between them is neither a send nor a receive
+  const ownWallets = new Set([walletAddress, ...options.linkedWallets]);
+  const activity = swaps.filter(swap => !isInternalTransfer(swap, ownWallets));
+
+  const positionMap = new Map<string, TradePosition>();
+  for (const swap of activity) {
+    addSwapToPositions(positionMap, swap);
+  }
+  const positions = Array.from(positionMap.values());
+
+  const { events, openPositions, tokenStats } = calculatePaperhandsEvents(positions, prices, options, asOf);
+
+  return generateWalletStats(walletAddress, events, {
+    options,
+    startDate,
+    endDate,
+    // Tokens that were only ever received (mostly spam airdrops) weren't traded
+    coinsTraded: positions.filter(hasTrades).length,
+    isPartial,
+    holdings: positions.length > 0 ? summarizeHoldings(openPositions) : undefined,
+    tokenStats: positions.length > 0 ? tokenStats : undefined,
+    dexBreakdown: positions.length > 0 ? buildDexBreakdown(activity) : undefined,
+    fees: positions.length > 0 ? buildFeeSummary(activity) : undefined,
+  });
+}
+
+/**
+ * Trade count and USD volume per DEX label
+ */
+function buildDexBreakdown(swaps: ParsedSwap[]): DexBreakdown[] {
+  const byDex = new Map<string, DexBreakdown>();
+  for (const swap of swaps.filter(isTrade)) {
+    const dex = swap.dex || 'Unknown';
+    const entry = byDex.get(dex) ?? { dex, trades: 0, buys: 0, sells: 0, volume: 0 };
+    entry.trades++;
+    if (swap.type === 'buy') {
+      entry.buys++;
+      entry.volume += swap.amountIn || 0;
+    } else {
+      entry.sells++;
+      entry.volume += swap.amountOut || 0;
+    }
+    byDex.set(dex, entry);
+  }
+  return Array.from(byDex.values()).sort((a, b) => b.volume - a.volume || b.trades - a.trades);
+}
+
+/**
+ * Fees paid across all swaps, split by kind in proportion to each swap's lamports
+ */
+function buildFeeSummary(swaps: ParsedSwap[]): FeeSummary {
+  const summary: FeeSummary = {
+    totalPaid: 0,
+    network: 0,
+    priority: 0,
+    tips: 0,
+    totalPaidSol: 0,
+    swapsWithFees: 0,
+    volume: 0,
+    percentOfVolume: 0,
+  };
+
+  for (const swap of swaps.filter(isTrade)) {
+    summary.volume += (swap.type === 'buy' ? swap.amountIn : swap.amountOut) || 0;
+    if (!swap.fees) continue;
+
+    const lamports = totalFeeLamports(swap.fees);
+    if (lamports === 0) continue;
+    summary.swapsWithFees++;
+    summary.totalPaidSol += lamports / 1e9;
+
+    const usd = swap.feeUsd ?? 0;
+    summary.totalPaid += usd;
+    summary.network += usd * (swap.fees.network / lamports);
+    summary.priority += usd * (swap.fees.priority / lamports);
+    summary.tips += usd * (swap.fees.tip / lamports);
+  }
+
+  summary.percentOfVolume = summary.volume > 0 ? (summary.totalPaid / summary.volume) * 100 : 0;
+  return summary;
+}
+
+/**
+ * Earliest activity per traded mint (the range price history has to cover).
+ * Mints that were only ever received or sent aren't priced.
+ */
+export function firstTradeByMint(swaps: ParsedSwap[]): Map<string, number> {
+  const tradedMints = new Set(swaps.filter(isTrade).map(swap => swap.tokenMint));
+  const firstTrades = new Map<string, number>();
+  for (const swap of swaps) {
+    if (!tradedMints.has(swap.tokenMint)) continue;
+    const previous = firstTrades.get(swap.tokenMint);
+    if (previous === undefined || swap.timestamp < previous) {
+      firstTrades.set(swap.tokenMint, swap.timestamp);
+    }
+  }
+  return firstTrades;
+}
+
+/**
+ * Add a swap to the positions map incrementally
+ */
+function addSwapToPositions(positionMap: Map<string, TradePosition>, swap: ParsedSwap): void {
+  if (!positionMap.has(swap.tokenMint)) {
+    const fallbackSymbol = swap.tokenSymbol || (swap.tokenMint ? `${swap.tokenMint.slice(0, 4)}...${swap.tokenMint.slice(-4)}` : 'Unknown');
+    const fallbackName = swap.tokenName || fallbackSymbol || 'Unknown Token';
+    positionMap.set(swap.tokenMint, {
+      tokenMint: swap.tokenMint,
+      tokenSymbol: fallbackSymbol,
+      tokenName: fallbackName,
+      tokenLogo: swap.tokenLogo,
+      tokenLogos: swap.tokenLogos,
+      decimals: swap.tokenDecimals,
+      buys: [],
+      sells: [],
+      receives: [],
+      sends: [],
+    });
+  }
+
+  const position = positionMap.get(swap.tokenMint)!;
+  if (!position.tokenSymbol && swap.tokenSymbol) {
+    position.tokenSymbol = swap.tokenSymbol;
+  }
+  if (!position.tokenName && swap.tokenName) {
+    position.tokenName = swap.tokenName;
+  }
+  if (!position.tokenLogo && swap.tokenLogo) {
+    position.tokenLogo = swap.tokenLogo;
+  }
+  if (swap.tokenLogos && swap.tokenLogos.length > 0) {
+    const existing = new Set(position.tokenLogos ?? []);
+    for (const logo of swap.tokenLogos) {
+      if (logo) existing.add(logo);
+    }
+    position.tokenLogos = Array.from(existing);
+  }
+  
+  if (swap.type === 'transfer_in' || swap.type === 'transfer_out') {
+    const transfer: TransferRecord = {
+      signature: swap.signature,
+      timestamp: swap.timestamp,
+      amountRaw: swap.tokenAmountRaw,
+      kind: swap.transferKind ?? 'external',
+    };
+    (swap.type === 'transfer_in' ? position.receives : position.sends).push(transfer);
+    return;
+  }
+
+  // Fees count towards what a buy cost and come off what a sell returned
+  const feeUsd = swap.feeUsd ?? 0;
+  const feeSol = swap.fees ? totalFeeLamports(swap.fees) / 1e9 : 0;
+
+  if (swap.type === 'buy') {
+    position.buys.push({
+      signature: swap.signature,
+      timestamp: swap.timestamp,
+      amountRaw: swap.tokenAmountRaw,
+      amount: swap.amountOut,
+      price: swap.pricePerToken,
+      totalCost: swap.amountIn + feeUsd,
+      costSol: swap.solAmount !== undefined ? swap.solAmount + feeSol : undefined,
+    });
+  } else {
+    position.sells.push({
+      signature: swap.signature,
+      timestamp: swap.timestamp,
+      amountRaw: swap.tokenAmountRaw,
+      amount: swap.amountIn,
+      price: swap.pricePerToken,
+      totalValue: swap.amountOut - feeUsd,
+      valueSol: swap.solAmount !== undefined ? swap.solAmount - feeSol : undefined,
+    });
+  }
+}
+
+/**
+ * A buy still (partly) held. Amounts are raw base units so matching is exact;
+ * USD/SOL costs are prorated from the lot's totals.
+ */
+interface OpenLot {
+  timestamp: number;
+  amountRaw: bigint;
+  remainingRaw: bigint;
+  totalCost: number;
+  totalCostSol?: number;
+}
+
+interface MatchedLot {
+  amountRaw: bigint;
+  cost: number;
+  costSol?: number;
+  timestamp: number;
+}
+
+const lotUnitCost = (lot: OpenLot) => (lot.amountRaw > 0n ? lot.totalCost / Number(lot.amountRaw) : 0);
+
+/**
+ * Share of a lot's cost for part of it (exact at both ends: none and all)
+ */
+function prorate(total: number, part: bigint, whole: bigint): number {
+  if (whole <= 0n || part <= 0n) return 0;
+  return part >= whole ? total : total * (Number(part) / Number(whole));
+}
+
+/**
+ * Consume lots for one sell according to the cost-basis method.
+ * Only lots bought at or before the sell are eligible; lots are mutated in place.
+ */
+function matchSellToLots(
+  lots: OpenLot[],
+  sellTimestamp: number,
+  sellAmountRaw: bigint,
+  method: CostBasisMethod
+): MatchedLot[] {
+  const eligible = lots.filter(lot => lot.remainingRaw > 0n && lot.timestamp <= sellTimestamp);
+  const matched: MatchedLot[] = [];
+  if (eligible.length === 0) return matched;
+
+  const take = (lot: OpenLot, amountRaw: bigint) => {
+    if (amountRaw <= 0n) return;
+    matched.push({
+      amountRaw,
+      cost: prorate(lot.totalCost, amountRaw, lot.amountRaw),
+      costSol: lot.totalCostSol !== undefined ? prorate(lot.totalCostSol, amountRaw, lot.amountRaw) : undefined,
+      timestamp: lot.timestamp,
+    });
+    lot.remainingRaw -= amountRaw;
+  };
+
+  if (method === 'average') {
+    // Draw from every held lot in proportion, so the sell carries the pooled average cost.
+    // Integer division leaves a few base units over; the last lots absorb them.
+    const held = eligible.reduce((sum, lot) => sum + lot.remainingRaw, 0n);
+    const target = sellAmountRaw < held ? sellAmountRaw : held;
+    const shares = eligible.map(lot => (lot.remainingRaw * target) / held);
+    let leftover = target - shares.reduce((sum, share) => sum + share, 0n);
+    for (let i = eligible.length - 1; i >= 0 && leftover > 0n; i--) {
+      const extra = eligible[i].remainingRaw - shares[i] < leftover ? eligible[i].remainingRaw - shares[i] : leftover;
+      shares[i] += extra;
+      leftover -= extra;
+    }
+    eligible.forEach((lot, i) => take(lot, shares[i]));
+    return matched;
+  }
+
+  const ordered = method === 'fifo'
+    ? eligible
+    : method === 'lifo'
+      ? [...eligible].reverse()
+      : [...eligible].sort((a, b) => lotUnitCost(b) - lotUnitCost(a)); // hifo
+
+  let remainingToMatch = sellAmountRaw;
+  for (const lot of ordered) {
+    if (remainingToMatch <= 0n) break;
+    const amountFromLot = lot.remainingRaw < remainingToMatch ? lot.remainingRaw : remainingToMatch;
+    take(lot, amountFromLot);
+    remainingToMatch -= amountFromLot;
+  }
+
+  return matched;
+}
+
+interface PositionAnalysis {
+  events: PaperhandsEvent[];
+  openPositions: OpenPosition[];
+  tokenStats: TokenStats[];
+}
+
+// Open positions worth less than this (cost and value) are dust and not reported
+const DUST_POSITION_USD = 1;
+
+/**
+ * Summarize lots still held after all sells were matched
+ */
+function buildOpenPosition(
+  position: TradePosition,
+  lots: OpenLot[],
+  currentPrice: number,
+  candles: PriceCandle[],
+  asOf: number
+): OpenPosition | null {
+  const openLots = lots.filter(lot => lot.remainingRaw > 0n);
+  if (openLots.length === 0) return null;
+
+  const amount = toUiAmount(openLots.reduce((sum, lot) => sum + lot.remainingRaw, 0n), position.decimals);
+  const costBasis = openLots.reduce((sum, lot) => sum + prorate(lot.totalCost, lot.remainingRaw, lot.amountRaw), 0);
+  const avgEntryPrice = amount > 0 ? costBasis / amount : 0;
+  const priceNow = currentPrice > 0 ? currentPrice : 0;
+  const currentValue = amount * priceNow;
+
+  if (costBasis < DUST_POSITION_USD && currentValue < DUST_POSITION_USD) return null;
+
+  const firstBuyTimestamp = openLots[0].timestamp;
+  const peak = findPeakSince(candles, firstBuyTimestamp);
+  const peakPrice = peak && peak.price > priceNow ? peak.price : priceNow;
+  const drawdownFromPeak = peakPrice > 0 ? ((peakPrice - priceNow) / peakPrice) * 100 : 0;
+
+  return {
+    tokenMint: position.tokenMint,
+    tokenSymbol: position.tokenSymbol,
+    tokenName: position.tokenName,
+    tokenLogo: position.tokenLogo,
+    tokenLogos: position.tokenLogos,
+    amount,
+    costBasis,
+    avgEntryPrice,
+    currentPrice: priceNow,
+    currentValue,
+    unrealizedProfit: currentValue - costBasis,
+    unrealizedPercent: costBasis > 0 ? ((currentValue - costBasis) / costBasis) * 100 : 0,
+    firstBuyDate: new Date(firstBuyTimestamp).toISOString().split('T')[0],
+    peakPrice,
+    peakDate: peak && peak.price > priceNow
+      ? new Date(peak.timestamp).toISOString().split('T')[0]
+      : new Date(asOf).toISOString().split('T')[0],
+    drawdownFromPeak,
+  };
+}
+
+/**
+ * Calculate paperhands events from real price history
+ * "Regret" = what you missed since sell, based on the highest price between the sell and now
+ * Lots left over after matching become open positions (the "bagholder" side)
+ */
+function calculatePaperhandsEvents(
+  positions: TradePosition[],
+  prices: PriceProvider,
+  options: AnalysisOptions,
+  asOf: number
+): PositionAnalysis {
+  const { costBasis, receivedCostBasis, minEventUsd } = options;
+  const events: PaperhandsEvent[] = [];
+  const openPositions: OpenPosition[] = [];
+  const tokenStats: TokenStats[] = [];
+
+  for (const position of positions) {
+    // Current price is 0 for dead/unlisted tokens; candles cover post-sell peaks and holding drawdowns
+    const currentPrice = prices.getCurrentPrice(position.tokenMint);
+    const marketCap = prices.getMarketCap(position.tokenMint);
+    const candles = prices.getCandles(position.tokenMint);
+    // Without a current price, events fall back to the trade's own price below
+    const priceQuality: PriceQuality | undefined = currentPrice > 0
+      ? prices.getPriceQuality?.(position.tokenMint)
+      : { source: 'trade', confidence: 'low' };
+
+    // Lots from buys and from tokens received without one (zero cost, or their price on arrival)
+    const buys: OpenLot[] = [
+      ...position.buys.map(buy => ({
+        timestamp: buy.timestamp,
+        amountRaw: buy.amountRaw,
+        remainingRaw: buy.amountRaw,
+        totalCost: buy.totalCost || (buy.amount * buy.price),
+        totalCostSol: buy.costSol,
+      })),
+      ...position.receives.map(receive => ({
+        timestamp: receive.timestamp,
+        amountRaw: receive.amountRaw,
+        remainingRaw: receive.amountRaw,
+        totalCost: receivedCostBasis === 'market'
+          ? toUiAmount(receive.amountRaw, position.decimals) * (priceAt(candles, receive.timestamp) ?? 0)
+          : 0,
+      })),
+    ].sort((a, b) => a.timestamp - b.timestamp);
+
+    // Sells and sends in order, so sends consume the lots they actually took
+    const outflows = [
+      ...position.sells.map(sell => ({ timestamp: sell.timestamp, sell })),
+      ...position.sends.map(send => ({ timestamp: send.timestamp, send })),
+    ].sort((a, b) => a.timestamp - b.timestamp);
+
+    let tokenRealized = 0;
+    let tokenRegret = 0;
+
+    for (const outflow of outflows) {
+      if ('send' in outflow) {
+        // Sent away: no longer held, but not an exit (nothing realized, no regret)
+        matchSellToLots(buys, outflow.timestamp, outflow.send.amountRaw, costBasis);
+        continue;
+      }
+
+      const { sell } = outflow;
+      if (sell.amountRaw <= 0n) continue;
+
+      const matchedLots = matchSellToLots(buys, sell.timestamp, sell.amountRaw, costBasis);
+
+      const matchedRaw = matchedLots.reduce((sum, lot) => sum + lot.amountRaw, 0n);
+      if (matchedRaw === 0n) {
+        console.debug(`No matching buys found for sell ${sell.signature} of ${position.tokenSymbol}`);
+        continue;
+      }
+
+      // Floats from here on are for display and USD math only
+      const matchedAmount = toUiAmount(matchedRaw, position.decimals);
+      const grossSellValue = sell.totalValue || (sell.amount * sell.price);
+      const sellValue = prorate(grossSellValue, matchedRaw, sell.amountRaw);
+      const buyValue = matchedLots.reduce((sum, lot) => sum + lot.cost, 0);
+      const realizedProfit = sellValue - buyValue;
+
+      // Original SOL legs, only when every matched buy and the sell were SOL-denominated
+      const buyValueSol = matchedLots.every(lot => lot.costSol !== undefined)
+        ? matchedLots.reduce((sum, lot) => sum + (lot.costSol ?? 0), 0)
+        : undefined;
+      const sellValueSol = sell.valueSol !== undefined ? prorate(sell.valueSol, matchedRaw, sell.amountRaw) : undefined;
+      
+      // Current value if still holding (use current price if available, else sell price)
+      const inferredSellPrice = (matchedAmount > 0 && sellValue > 0)
+        ? sellValue / matchedAmount
+        : sell.price;
+      const effectiveCurrentPrice = currentPrice > 0
+        ? currentPrice
+        : (inferredSellPrice > 0 ? inferredSellPrice : (buyValue > 0 && matchedAmount > 0 ? buyValue / matchedAmount : 0));
+      const currentValue = matchedAmount * effectiveCurrentPrice;
+
+      // Highest price after the sell (candle high or today's price, whichever is higher)
+      const historicalPeak = findPeakSince(candles, sell.timestamp);
+      const peakPrice = historicalPeak && historicalPeak.price > effectiveCurrentPrice
+        ? historicalPeak.price
+        : effectiveCurrentPrice;
+      const peakTimestamp = historicalPeak && historicalPeak.price > effectiveCurrentPrice
+        ? historicalPeak.timestamp
+        : asOf;
+      const peakValue = matchedAmount * peakPrice;
+      const missedSinceSell = Math.max(0, peakValue - sellValue);
+      tokenRealized += realizedProfit;
+      tokenRegret += missedSinceSell;
+      const regretPercent = buyValue > 0 ? (missedSinceSell / buyValue) * 100 : 0;
+
+      const averageBuyPrice = matchedAmount > 0 ? buyValue / matchedAmount : 0;
+      const sellPrice = matchedAmount > 0 ? sellValue / matchedAmount : sell.price;
+      const earliestBuyTimestamp = matchedLots.reduce(
+        (earliest, lot) => Math.min(earliest, lot.timestamp),
+        matchedLots[0]?.timestamp ?? sell.timestamp
+      );
+
+      // Create event if there's a significant loss OR missed opportunity (minEventUsd, $100 by default)
+      const hasSignificantRegret = (missedSinceSell >= minEventUsd);
+      const hadSignificantLoss = (realizedProfit < 0 && Math.abs(realizedProfit) >= minEventUsd);
+      
+      if (hasSignificantRegret || hadSignificantLoss) {
+        events.push({
+          id: `${position.tokenMint}-${sell.signature}`,
+          tokenSymbol: position.tokenSymbol,
+          tokenName: position.tokenName,
+          tokenMint: position.tokenMint,
+          tokenLogo: position.tokenLogo,
+          tokenLogos: position.tokenLogos,
+          buyPrice: averageBuyPrice,
+          sellPrice,
+          buyDate: new Date(earliestBuyTimestamp).toISOString().split('T')[0],
+          sellDate: new Date(sell.timestamp).toISOString().split('T')[0],
+          amount: matchedAmount,
+          realizedProfit,
+          buyValueSol,
+          sellValueSol,
+          unrealizedProfit: currentValue - buyValue,
+          regretAmount: missedSinceSell,
+          regretPercent,
+          peakPrice,
+          peakDate: new Date(peakTimestamp).toISOString().split('T')[0],
+          currentPrice: effectiveCurrentPrice,
+          marketCap,
+          priceSource: priceQuality?.source,
+          priceConfidence: priceQuality?.confidence,
+          txHash: sell.signature.slice(0, 8),
+          explorerUrl: `https://solscan.io/tx/${sell.signature}`
+        });
+      }
+    }
+
+    const openPosition = buildOpenPosition(position, buys, currentPrice, candles, asOf);
+    if (openPosition) {
+      openPositions.push(openPosition);
+    }
+
+    if (hasTrades(position)) {
+      tokenStats.push(buildTokenStats(position, {
+        realized: tokenRealized,
+        unrealized: openPosition?.unrealizedProfit ?? 0,
+        regret: tokenRegret,
+      }));
+    }
+  }
+
+  return {
+    events: events.sort((a, b) => b.regretAmount - a.regretAmount),
+    openPositions: openPositions.sort((a, b) => b.currentValue - a.currentValue),
+    tokenStats: tokenStats.sort((a, b) => b.regret - a.regret),
+  };
+}
+
+/**
+ * Whole-history breakdown for one traded mint
+ */
+function buildTokenStats(
+  position: TradePosition,
+  pnl: { realized: number; unrealized: number; regret: number }
+): TokenStats {
+  const boughtAmount = position.buys.reduce((sum, buy) => sum + (buy.amount ?? 0), 0);
+  const boughtValue = position.buys.reduce((sum, buy) => sum + (buy.totalCost || (buy.amount ?? 0) * buy.price), 0);
+  const soldAmount = position.sells.reduce((sum, sell) => sum + (sell.amount ?? 0), 0);
+  const soldValue = position.sells.reduce((sum, sell) => sum + (sell.totalValue || (sell.amount ?? 0) * sell.price), 0);
+
+  return {
+    symbol: position.tokenSymbol,
+    tokenMint: position.tokenMint,
+    tokenName: position.tokenName,
+    tokenLogo: position.tokenLogo,
+    tokenLogos: position.tokenLogos,
+    buys: position.buys.length,
+    sells: position.sells.length,
+    avgEntry: boughtAmount > 0 ? boughtValue / boughtAmount : 0,
+    avgExit: soldAmount > 0 ? soldValue / soldAmount : 0,
+    boughtValue,
+    soldValue,
+    realized: pnl.realized,
+    unrealized: pnl.unrealized,
+    regret: pnl.regret,
+  };
+}
+
+function summarizeHoldings(openPositions: OpenPosition[]): WalletHoldings {
+  const totalCostBasis = openPositions.reduce((sum, p) => sum + p.costBasis, 0);
+  const totalCurrentValue = openPositions.reduce((sum, p) => sum + p.currentValue, 0);
+  return {
+    positions: openPositions,
+    totalCostBasis,
+    totalCurrentValue,
+    totalUnrealizedProfit: totalCurrentValue - totalCostBasis,
+  };
+}
+
+/**
+ * Generate comprehensive wallet statistics from paperhands events
+ */
+interface WalletStatsContext {
+  options: AnalysisOptions;
+  startDate: Date;
+  endDate: Date;
+  coinsTraded: number;
+  isPartial: boolean;
+  holdings?: WalletHoldings;
+  tokenStats?: TokenStats[];
+  dexBreakdown?: DexBreakdown[];
+  fees?: FeeSummary;
+}
+
+function generateWalletStats(
+  address: string,
+  events: PaperhandsEvent[],
+  { options, startDate, endDate, coinsTraded, isPartial, holdings, tokenStats, dexBreakdown, fees }: WalletStatsContext
+): WalletStats {
+  const { daysBack } = options;
+  const totalRegret = events.reduce((sum, e) => sum + e.regretAmount, 0);
+  const totalRealized = events.reduce((sum, e) => sum + e.realizedProfit, 0);
+
+  // Calculate hold times
+  const holdTimes = events.map(e => {
+    const buy = new Date(e.buyDate).getTime();
+    const sell = new Date(e.sellDate).getTime();
+    return (sell - buy) / (1000 * 60 * 60 * 24); // days
+  });
+
+  const avgHoldTime = holdTimes.length > 0 ? holdTimes.reduce((a, b) => a + b, 0) / holdTimes.length : 0;
+
+  // Calculate win/loss rate
+  const wins = events.filter(e => e.realizedProfit > 0).length;
+  const winRate = events.length > 0 ? (wins / events.length) * 100 : 0;
+
+  // Calculate paperhands score (0-100, higher = worse paperhands)
+  const regretRatio = totalRealized !== 0 ? totalRegret / Math.abs(totalRealized) : 0;
+  const paperhandsScore = Math.min(Math.round(regretRatio * options.scoreScale), 100);
+
+  return {
+    address,
+    ensName: undefined, // Could fetch from SNS
+    handle: `@${address.slice(0, 8)}`,
+    bio: 'Analyzed wallet - check out my paperhands moments',
+    tags: [
+      ...inferTradingStyle(events),
+      // Held at least one bag through a 50%+ dump from its peak
+      ...(holdings?.positions.some(p => p.drawdownFromPeak >= 50) ? ['Bagholder'] : []),
+    ],
+    socials: {},
+    paperhandsScore,
+    totalRegret,
+    totalRegretPercent: totalRealized !== 0 ? Math.round((totalRegret / Math.abs(totalRealized)) * 100) : 0,
+    worstLoss: events.length > 0 ? Math.max(...events.map(e => e.regretAmount)) : 0,
+    totalExitedEarly: events.length,
+    totalEvents: events.length,
+    avgHoldTime: Math.round(avgHoldTime),
+    avgShouldaHoldTime: 0, // Removed fake "shoulda held" metric
+    winRate: Math.round(winRate),
+    lossRate: Math.round(100 - Math.min(Math.round(winRate), 100)),
+    topRegrettedTokens: (() => {
+      // Aggregate regret by tokenMint (fallback to symbol)
+      const byMint = new Map<string, { regret: number; symbol: string; tokenLogo?: string; tokenLogos?: string[] }>();
+      for (const e of events) {
+        const key = e.tokenMint || e.tokenSymbol;
+        const entry = byMint.get(key) || { regret: 0, symbol: e.tokenSymbol, tokenLogo: e.tokenLogo, tokenLogos: e.tokenLogos };
+        entry.regret += e.regretAmount;
+        entry.symbol = e.tokenSymbol || entry.symbol;
+        if (!entry.tokenLogo && e.tokenLogo) {
+          entry.tokenLogo = e.tokenLogo;
+        }
+        if (e.tokenLogos && e.tokenLogos.length > 0) {
+          const existing = new Set(entry.tokenLogos ?? []);
+          for (const logo of e.tokenLogos) {
+            if (logo) existing.add(logo);
+          }
+          entry.tokenLogos = Array.from(existing);
+        }
+        byMint.set(key, entry);
+      }
+      return Array.from(byMint.entries())
+        .sort((a, b) => b[1].regret - a[1].regret)
+        .slice(0, 3)
+        .map(([mint, v]) => ({
+          symbol: v.symbol,
+          tokenMint: mint,
+          regretAmount: v.regret,
+          tokenLogo: v.tokenLogo,
+          tokenLogos: v.tokenLogos,
+        }));
+    })(),
+    events,
+    analysisDateRange: daysBack ? {
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      daysBack
+    } : undefined,
+    coinsTraded,
+    isPartial,
+    costBasisMethod: options.costBasis,
+    holdings,
+    tokenStats,
+    dexBreakdown,
+    fees,
+    linkedWallets: options.linkedWallets.length > 0 ? options.linkedWallets : undefined,
+    analysisOptions: options,
+  };
+}
+
+/**
+ * Infer trading style from behavior patterns
+ */
+function inferTradingStyle(events: PaperhandsEvent[]): string[] {
+  const tags: string[] = [];
+
+  const avgHold = events.reduce((sum, e) => {
+    const buy = new Date(e.buyDate).getTime();
+    const sell = new Date(e.sellDate).getTime();
+    return sum + (sell - buy) / (1000 * 60 * 60 * 24);
+  }, 0) / events.length;
+
+  if (avgHold < 7) tags.push('Scalper');
+  else if (avgHold < 30) tags.push('Swing');
+  else tags.push('Hold');
+
+  const avgRegretPercent = events.reduce((sum, e) => sum + e.regretPercent, 0) / events.length;
+  
+  if (avgRegretPercent > 500) tags.push('Diamond Jeet');
+  else if (avgRegretPercent > 200) tags.push('Jeet');
+  else tags.push('Paper');
+
+  return tags;
+}
@@ -3,484 +3,335 @@
  * 
  * Core logic for analyzing wallet trading history and calculating
  * "paperhands" metrics - how much money was left on the table by selling too early.
+ *
+ * This module does the fetching (swaps, prices) and hands the data to the pure
+ * analyzeSwaps in ./paperhands-core.
  */
 
 import { 
-  parseSwapsIncrementally,
-  getCurrentPriceOnly,
-  fetchTokenMarketCap,
   isValidSolanaAddress,
-  ProgressCallback
+  ParsedSwap,
 } from './solana';
-import { WalletStats, PaperhandsEvent } from '@/types/paperhands';
+import { TransactionSource, defaultTransactionSource, heliusEnhancedSource, rpcSource, withFallback } from './transaction-sources';
+import { withSwapCache } from './swap-cache';
+import { getPriceCandles, PriceCandle } from './price-history';
+import { getTokenQuotes } from './token-prices';
+import { analyzeSwaps, createSnapshotPriceProvider, firstTradeByMint, PriceSnapshot } from './paperhands-core';
+import { detectLinkedWallets } from './transfer-legs';
+import { createProgressTracker } from './scan-progress';
+import { WalletStats, AnalysisOptions } from '@/types/paperhands';
+import { MAX_LINKED_WALLETS, resolveAnalysisOptions } from '@/config/analysis';
+import { anySignal, isAbortError } from '@/lib/abort';
+import type { ProgressCallback, ProgressReporter } from '@/types/progress';
 // generateMockWalletStats available in mockData.ts if needed
 
-interface TradePosition {
-  tokenMint: string;
-  tokenSymbol: string;
-  tokenName: string;
-  tokenLogo?: string;
-  tokenLogos?: string[];
-  buys: Array<{
-    signature: string;
-    timestamp: number;
-    amount: number;
-    price: number;
-    totalCost: number;
-  }>;
-  sells: Array<{
-    signature: string;
-    timestamp: number;
-    amount: number;
-    price: number;
-    totalValue: number;
-  }>;
-}
-
 // Shared state for incremental analysis
 interface IncrementalAnalysisState {
-  positions: Map<string, TradePosition>;
-  events: PaperhandsEvent[];
-  processedMints: Set<string>;
-  lastStats: WalletStats | null;
+  swaps: ParsedSwap[];
   swapsProcessed: number;
   isPartial: boolean;
 }
 
-// SCAN_TIMEOUT for incremental analysis (90 seconds)
-const INCREMENTAL_TIMEOUT_MS = 90000;
+// Partial snapshots re-run the whole analysis, so they're emitted at most this often
+const PARTIAL_RESULT_INTERVAL_MS = 1000;
+// Mints whose price history is fetched at once; GeckoTerminal is still paced by the scheduler
+const PRICING_CONCURRENCY = 4;
+
+/**
+ * analyzePaperhands input: serializable AnalysisOptions (all optional, defaults in
+ * @/config/analysis) plus runtime hooks that are not echoed back in the result
+ */
+export interface AnalyzeInput extends Partial<AnalysisOptions> {
+  /** Typed progress events (phase, counts, percent, ETA) as the scan advances */
+  onProgress?: ProgressCallback;
+  /**
+   * WalletStats (isPartial) for what has been fetched and priced so far, at most once
+   * per PARTIAL_RESULT_INTERVAL_MS; events gain prices as the pricing phase advances
+   */
+  onPartialResult?: (stats: WalletStats) => void;
+  /** Where swaps come from (overrides includeRpcFallback and useSwapCache) */
+  source?: TransactionSource;
+  /** Cancels the scan: outbound requests stop and the promise rejects with an AbortError */
+  signal?: AbortSignal;
+}
 
 /**
  * Main entry point: Analyze a wallet for paperhands behavior
  * Now with incremental processing - computes stats as batches arrive
+ *
+ * With linkedWallets (or detectLinkedWallets) every wallet of the cluster is
+ * fetched and the result is one WalletStats for the main address.
+ *
+ * Hitting timeoutMs aborts the fetch and analyzes what arrived so far (isPartial);
+ * price history then gets another timeoutMs before the remaining mints fall back
+ * to their current quote. Aborting `signal` stops everything and rejects.
  */
 export async function analyzePaperhands(
   walletAddress: string,
-  daysBack?: number,
-  onProgress?: ProgressCallback
+  input: AnalyzeInput = {}
 ): Promise<WalletStats> {
+  const { onProgress, onPartialResult, source: sourceOverride, signal, ...rawOptions } = input;
+
   // Validate address
   if (!isValidSolanaAddress(walletAddress)) {
     throw new Error('Invalid Solana wallet address');
   }
 
+  const options = resolveAnalysisOptions(rawOptions);
+  const { daysBack } = options;
+
+  const invalidLinked = options.linkedWallets.find(wallet => !isValidSolanaAddress(wallet));
+  if (invalidLinked) {
+    throw new Error(`Invalid linked wallet address: ${invalidLinked}`);
+  }
+  // Main wallet first; detected wallets are appended once its history is in
+  const wallets = Array.from(new Set([walletAddress, ...options.linkedWallets]));
+  const networkSource = options.includeRpcFallback
+    ? withFallback(heliusEnhancedSource, rpcSource)
+    : defaultTransactionSource;
+  const source = sourceOverride
+    ?? (options.useSwapCache ? withSwapCache(networkSource) : networkSource);
+
   try {
+    signal?.throwIfAborted();
     const timeRangeText = daysBack ? ` (last ${daysBack} days)` : '';
     console.log(`Starting incremental analysis${timeRangeText} for wallet:`, walletAddress);
-    onProgress?.(`Starting wallet analysis${timeRangeText}...`, 0);
-    
-    // Calculate date range
-    const endDate = new Date();
-    const startDate = daysBack 
-      ? new Date(endDate.getTime() - daysBack * 24 * 60 * 60 * 1000)
-      : new Date(0);
+
+    // Pin "now" so the fetch window and the stats agree
+    const asOf = Date.now();
+    const progress = createProgressTracker(onProgress, asOf);
+    progress.report({ phase: 'fetching', message: `Starting wallet analysis${timeRangeText}...` });
 
     // State for incremental analysis
     const state: IncrementalAnalysisState = {
-      positions: new Map(),
-      events: [],
-      processedMints: new Set(),
-      lastStats: null,
+      swaps: [],
       swapsProcessed: 0,
       isPartial: false,
     };
 
-    let isTimedOut = false;
-    const allSwaps: any[] = [];
+    const analyzeCollected = (prices: PriceSnapshot, isPartial: boolean): WalletStats => {
+      const stats = analyzeSwaps(state.swaps, createSnapshotPriceProvider(prices), {
+        ...options,
+        linkedWallets: wallets.slice(1),
+        walletAddress,
+        asOf,
+        isPartial,
+      });
+      // Sources drop these before the core sees them; only the progress counts know
+      const { unpricedSwaps } = progress.current().counts;
+      return unpricedSwaps > 0 ? { ...stats, unpricedSwaps } : stats;
+    };
+
+    let lastPartialAt = 0;
+    const emitPartialResult = (prices: PriceSnapshot) => {
+      const now = Date.now();
+      if (!onPartialResult || now - lastPartialAt < PARTIAL_RESULT_INTERVAL_MS) return;
+      lastPartialAt = now;
+      onPartialResult(analyzeCollected(prices, true));
+    };
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    // The fetch stops on the timeout as well as on the caller's signal
+    const timeoutController = new AbortController();
+    const fetchSignal = anySignal([signal, timeoutController.signal]);
 
     // Set up timeout
     const timeoutPromise = new Promise<'timeout'>((resolve) => {
-      setTimeout(() => {
-        isTimedOut = true;
+      timeoutId = setTimeout(() => {
+        timeoutController.abort();
         resolve('timeout');
-      }, INCREMENTAL_TIMEOUT_MS);
+      }, options.timeoutMs);
     });
 
-    // Process swaps incrementally as they arrive
-    const processSwapBatch = (swaps: any[]) => {
-      for (const swap of swaps) {
-        addSwapToPositions(state.positions, swap);
-        state.swapsProcessed++;
-      }
+    // Collect swaps incrementally as they arrive
+    const processSwapBatch = (swaps: ParsedSwap[]) => {
+      state.swaps.push(...swaps);
+      state.swapsProcessed += swaps.length;
     };
 
-    // Fetch with incremental callbacks
+    // Fetch with incremental callbacks, one wallet of the cluster at a time
     const fetchPromise = (async () => {
-      onProgress?.(`Fetching and parsing trades${timeRangeText}...`, 5);
+      for (let walletIdx = 0; walletIdx < wallets.length && !fetchSignal.aborted; walletIdx++) {
+        const wallet = wallets[walletIdx];
+        const walletText = wallets.length > 1
+          ? ` for ${wallet.slice(0, 4)}...${wallet.slice(-4)} (${walletIdx + 1}/${wallets.length})`
+          : '';
+        progress.startWallet(wallet, walletIdx, wallets.length);
+        progress.report({ phase: 'fetching', message: `Fetching and parsing trades${timeRangeText}${walletText}...` });
       
-      await parseSwapsIncrementally(
-        walletAddress,
-        daysBack,
-        onProgress,
-        (batchSwaps, isComplete) => {
-          if (isTimedOut) return; // Stop processing if timed out
+        const { swaps: fetched } = await source.fetchSwaps(wallet, {
+          daysBack,
+          onProgress: progress.report,
+          heliusPageSize: options.heliusPageSize,
+          rpcPageSize: options.rpcPageSize,
+          signal: fetchSignal,
+          onBatch: (batchSwaps) => {
+            if (fetchSignal.aborted) return; // Stop processing once timed out or cancelled
           
-          if (batchSwaps.length > 0) {
-            allSwaps.push(...batchSwaps);
-            processSwapBatch(batchSwaps);
-            
-            // Update progress
-            onProgress?.(
-              `Processing trades${timeRangeText}... (${state.swapsProcessed} trades)`,
-              Math.min(10 + state.swapsProcessed / 10, 75)
-            );
-          }
-          
-          if (isComplete) {
-            // Fetch completed
+            if (batchSwaps.length > 0) {
+              processSwapBatch(batchSwaps);
+              progress.report({
+                message: `Processing trades${timeRangeText}... (${state.swapsProcessed} trades)`,
+                add: { swaps: batchSwaps.length },
+              });
+              // Prices come later; until then events show up without USD values
+              emitPartialResult({});
+            }
+          },
+        });
+
+        // Only the main wallet's transfers are searched, so clusters don't chain
+        if (walletIdx === 0 && options.detectLinkedWallets) {
+          const room = Math.max(0, MAX_LINKED_WALLETS - (wallets.length - 1));
+          const detected = detectLinkedWallets(fetched, walletAddress, MAX_LINKED_WALLETS)
+            .filter(linked => !wallets.includes(linked))
+            .slice(0, room);
+          if (detected.length > 0) {
+            console.log(`Detected ${detected.length} linked wallets for ${walletAddress}:`, detected);
+            wallets.push(...detected);
           }
         }
-      );
+      }
       
       return 'complete' as const;
     })();
 
+    // A fetch cut short by the timeout rejects with an AbortError nobody awaits
+    fetchPromise.catch(() => undefined);
+
     // Race between fetch completion and timeout
-    const result = await Promise.race([fetchPromise, timeoutPromise]);
+    const result = await Promise.race([fetchPromise, timeoutPromise])
+      .finally(() => clearTimeout(timeoutId));
+    signal?.throwIfAborted();
     
     if (result === 'timeout') {
-      console.log(`Analysis timed out after ${INCREMENTAL_TIMEOUT_MS / 1000}s with ${state.swapsProcessed} swaps processed`);
+      console.log(`Analysis timed out after ${options.timeoutMs / 1000}s with ${state.swapsProcessed} swaps processed`);
       state.isPartial = true;
-      onProgress?.(`Timeout reached - computing partial results from ${state.swapsProcessed} trades...`, 80);
+      progress.report({ message: `Timeout reached - computing partial results from ${state.swapsProcessed} trades...` });
     }
 
-    console.log(`Fetched ${allSwaps.length} signatures, processed ${state.swapsProcessed} swaps${timeRangeText}`);
+    console.log(`Processed ${state.swapsProcessed} swaps${timeRangeText}`);
     
-    // If we have NO swaps at all, throw an error
+    // If we have NO swaps at all, return empty stats
     if (state.swapsProcessed === 0) {
       console.info(`No coin buys or sells found${timeRangeText}. Returning empty results.`);
-      return generateWalletStats(walletAddress, [], daysBack, startDate, endDate, 0, state.isPartial);
+      progress.report({ phase: 'complete', message: 'No trades found' });
+      return analyzeCollected({}, state.isPartial);
     }
 
-    // Convert positions map to array
-    const positions = Array.from(state.positions.values());
-    console.log(`Grouped into ${positions.length} trading positions`);
+    // Fetch prices for every traded mint up front; the core itself does no I/O.
+    // Price history gets the same budget as the fetch did
+    const pricingDeadline = Date.now() + options.timeoutMs;
+    const prices = await fetchPriceSnapshot(state.swaps, asOf, progress.report, signal, emitPartialResult, pricingDeadline);
 
-    // Calculate paperhands events
-    onProgress?.(`Calculating regret metrics${timeRangeText}...`, 85);
-    const events = await calculatePaperhandsEvents(positions, onProgress);
+    // Generate final stats
+    progress.report({ phase: 'scoring', message: `Generating final report${timeRangeText}...` });
+    const stats = analyzeCollected(prices, state.isPartial);
 
-    if (events.length === 0) {
-      console.info(`No paperhands events over $100 detected${timeRangeText}.`);
+    if (stats.events.length === 0) {
+      console.info(`No paperhands events over $${options.minEventUsd} detected${timeRangeText}.`);
     }
 
-    console.log(`Found ${events.length} paperhands events`);
+    console.log(`Found ${stats.events.length} paperhands events across ${stats.coinsTraded} tokens`);
 
-    // Generate final stats
-    onProgress?.(`Generating final report${timeRangeText}...`, 95);
-    const stats = generateWalletStats(walletAddress, events, daysBack, startDate, endDate, positions.length, state.isPartial);
-
-    onProgress?.('Analysis complete!', 100);
+    progress.report({ phase: 'complete', message: 'Analysis complete!' });
     return stats;
   } catch (error) {
-    console.error('Error analyzing wallet:', error);
-    throw error;
-  }
-}
-
-/**
- * Add a swap to the positions map incrementally
- */
-function addSwapToPositions(positionMap: Map<string, TradePosition>, swap: any): void {
-  if (!positionMap.has(swap.tokenMint)) {
-    const fallbackSymbol = swap.tokenSymbol || (swap.tokenMint ? `${swap.tokenMint.slice(0, 4)}...${swap.tokenMint.slice(-4)}` : 'Unknown');
-    const fallbackName = swap.tokenName || fallbackSymbol || 'Unknown Token';
-    positionMap.set(swap.tokenMint, {
-      tokenMint: swap.tokenMint,
-      tokenSymbol: fallbackSymbol,
-      tokenName: fallbackName,
-      tokenLogo: swap.tokenLogo,
-      tokenLogos: swap.tokenLogos,
-      buys: [],
-      sells: []
-    });
-  }
-
-  const position = positionMap.get(swap.tokenMint)!;
-  if (!position.tokenSymbol && swap.tokenSymbol) {
-    position.tokenSymbol = swap.tokenSymbol;
-  }
-  if (!position.tokenName && swap.tokenName) {
-    position.tokenName = swap.tokenName;
-  }
-  if (!position.tokenLogo && swap.tokenLogo) {
-    position.tokenLogo = swap.tokenLogo;
-  }
-  if (swap.tokenLogos && swap.tokenLogos.length > 0) {
-    const existing = new Set(position.tokenLogos ?? []);
-    for (const logo of swap.tokenLogos) {
-      if (logo) existing.add(logo);
+    if (isAbortError(error)) {
+      console.log(`Analysis cancelled for wallet: ${walletAddress}`);
+    } else {
+      console.error('Error analyzing wallet:', error);
     }
-    position.tokenLogos = Array.from(existing);
-  }
-  
-  if (swap.type === 'buy') {
-    position.buys.push({
-      signature: swap.signature,
-      timestamp: swap.timestamp,
-      amount: swap.amountOut,
-      price: swap.pricePerToken,
-      totalCost: swap.amountIn
-    });
-  } else {
-    position.sells.push({
-      signature: swap.signature,
-      timestamp: swap.timestamp,
-      amount: swap.amountIn,
-      price: swap.pricePerToken,
-      totalValue: swap.amountOut
-    });
+    throw error;
   }
 }
 
 /**
- * Calculate paperhands events using CURRENT PRICE ONLY (no fake estimates)
- * "Regret" = what you missed since sell, based on current price
+ * Current price, market cap and candle history for every mint in the swaps
+ * (the I/O half of the analysis; see ./paperhands-core for the math).
+ * onMintPriced sees the snapshot filled in so far after each mint.
+ *
+ * Candles are fetched PRICING_CONCURRENCY mints at a time (the request scheduler
+ * still paces GeckoTerminal). Mints without history by `deadline` keep only their
+ * current quote, so a wallet with hundreds of tokens can't stall the scan.
  */
-async function calculatePaperhandsEvents(
-  positions: TradePosition[],
-  onProgress?: ProgressCallback
-): Promise<PaperhandsEvent[]> {
-  const events: PaperhandsEvent[] = [];
-  const totalPositions = positions.length;
-
-  for (let idx = 0; idx < positions.length; idx++) {
-    const position = positions[idx];
-    const progressPercent = 85 + (idx / totalPositions) * 10; // 85% to 95%
-    onProgress?.(`Analyzing ${position.tokenSymbol}...`, progressPercent);
-    
-    // Match each sell with its corresponding buys (FIFO)
-    const buys = [...position.buys]
-      .sort((a, b) => a.timestamp - b.timestamp)
-      .map(buy => {
-        const amount = buy.amount ?? 0;
-        const totalCost = buy.totalCost || (amount * buy.price);
-        const unitCost = amount > 0 ? totalCost / amount : 0;
-        return {
-          ...buy,
-          remainingAmount: amount,
-          unitCost,
-        };
-      });
-    const sells = [...position.sells].sort((a, b) => a.timestamp - b.timestamp);
-
-    // Get current price once per token (may fail for dead/unlisted tokens)
-    let currentPrice = 0;
-    let marketCap = 0;
-    try {
-      currentPrice = await getCurrentPriceOnly(position.tokenMint);
-      marketCap = await fetchTokenMarketCap(position.tokenMint);
-    } catch (error) {
-      console.warn(`Could not fetch data for ${position.tokenSymbol}`);
+export async function fetchPriceSnapshot(
+  swaps: ParsedSwap[],
+  asOf: number = Date.now(),
+  onProgress?: ProgressReporter,
+  signal?: AbortSignal,
+  onMintPriced?: (snapshot: PriceSnapshot) => void,
+  deadline?: number
+): Promise<PriceSnapshot> {
+  const snapshot: PriceSnapshot = {};
+  const firstTrades = Array.from(firstTradeByMint(swaps).entries());
+  const symbols = new Map(swaps.map(swap => [swap.tokenMint, swap.tokenSymbol]));
+  onProgress?.({ phase: 'pricing', message: 'Calculating regret metrics...', add: { mintsTotal: firstTrades.length } });
+
+  // Current price and market cap for every mint in a few batched requests
+  const quotes = await getTokenQuotes(firstTrades.map(([tokenMint]) => tokenMint), signal);
+
+  // Candle requests stop at the deadline as well as on the caller's signal
+  const deadlineController = new AbortController();
+  const deadlineId = deadline !== undefined
+    ? setTimeout(() => deadlineController.abort(), Math.max(0, deadline - Date.now()))
+    : undefined;
+  const candleSignal = anySignal([signal, deadlineController.signal]);
+  let withoutHistory = 0;
+
+  const priceMint = async (tokenMint: string, firstTradeTimestamp: number) => {
+    onProgress?.({ message: `Analyzing ${symbols.get(tokenMint) || tokenMint.slice(0, 4)}...` });
+
+    // Dead/unlisted tokens have no quote (price 0)
+    const quote = quotes.get(tokenMint);
+    const currentPrice = quote?.price ?? 0;
+    const marketCap = quote?.marketCap ?? 0;
+    if (!currentPrice) {
+      console.warn(`Could not fetch data for ${symbols.get(tokenMint) || tokenMint}`);
     }
 
-    for (const sell of sells) {
-      const sellAmount = sell.amount ?? 0;
-      if (sellAmount <= 0) continue;
-
-      let remainingToMatch = sellAmount;
-      const matchedLots: Array<{ amount: number; cost: number; timestamp: number }> = [];
-      const EPSILON = 1e-9;
-
-      while (remainingToMatch > EPSILON && buys.length > 0) {
-        const lot = buys[0];
-        const amountFromLot = Math.min(lot.remainingAmount, remainingToMatch);
-        if (amountFromLot <= 0) {
-          buys.shift();
-          continue;
-        }
-
-        const cost = lot.unitCost * amountFromLot;
-        matchedLots.push({
-          amount: amountFromLot,
-          cost,
-          timestamp: lot.timestamp,
-        });
-
-        lot.remainingAmount -= amountFromLot;
-        remainingToMatch -= amountFromLot;
-
-        if (lot.remainingAmount <= EPSILON) {
-          buys.shift();
-        }
-      }
-
-      const matchedAmount = matchedLots.reduce((sum, lot) => sum + lot.amount, 0);
-      if (matchedAmount <= EPSILON) {
-        console.debug(`No matching buys found for sell ${sell.signature} of ${position.tokenSymbol}`);
-        continue;
+    // Price history from the first trade onwards, for post-sell peaks and holding drawdowns
+    let candles: PriceCandle[] = [];
+    if (!candleSignal.aborted) {
+      try {
+        candles = await getPriceCandles(tokenMint, firstTradeTimestamp, asOf, undefined, candleSignal);
+      } catch (error) {
+        if (!isAbortError(error) || signal?.aborted) throw error;
       }
+    }
+    if (candleSignal.aborted && candles.length === 0) withoutHistory++;
+
+    snapshot[tokenMint] = {
+      currentPrice,
+      marketCap,
+      priceSource: quote?.source,
+      priceConfidence: quote?.confidence,
+      candles,
+    };
+    onProgress?.({ add: { mintsPriced: 1 } });
+    onMintPriced?.(snapshot);
+  };
 
-      const proportionMatched = sellAmount > 0 ? Math.min(1, matchedAmount / sellAmount) : 1;
-      const grossSellValue = sell.totalValue || (sellAmount * sell.price);
-      const sellValue = grossSellValue * proportionMatched;
-      const buyValue = matchedLots.reduce((sum, lot) => sum + lot.cost, 0);
-      const realizedProfit = sellValue - buyValue;
-      
-      // Current value if still holding (use current price if available, else sell price)
-      const inferredSellPrice = (matchedAmount > 0 && sellValue > 0)
-        ? sellValue / matchedAmount
-        : sell.price;
-      const effectiveCurrentPrice = currentPrice > 0
-        ? currentPrice
-        : (inferredSellPrice > 0 ? inferredSellPrice : (buyValue > 0 && matchedAmount > 0 ? buyValue / matchedAmount : 0));
-      const currentValue = matchedAmount * effectiveCurrentPrice;
-      const missedSinceSell = Math.max(0, currentValue - sellValue);
-      const regretPercent = buyValue > 0 ? (missedSinceSell / buyValue) * 100 : 0;
-
-      const averageBuyPrice = matchedAmount > 0 ? buyValue / matchedAmount : 0;
-      const sellPrice = matchedAmount > 0 ? sellValue / matchedAmount : sell.price;
-      const earliestBuyTimestamp = matchedLots.reduce(
-        (earliest, lot) => Math.min(earliest, lot.timestamp),
-        matchedLots[0]?.timestamp ?? sell.timestamp
-      );
-
-      // Create event if there's any loss OR significant missed opportunity above $100
-      const hasSignificantRegret = (missedSinceSell >= 100);
-      const hadSignificantLoss = (realizedProfit < 0 && Math.abs(realizedProfit) >= 100);
-      
-      if (hasSignificantRegret || hadSignificantLoss) {
-        events.push({
-          id: `${position.tokenMint}-${sell.signature}`,
-          tokenSymbol: position.tokenSymbol,
-          tokenName: position.tokenName,
-          tokenMint: position.tokenMint,
-          tokenLogo: position.tokenLogo,
-          tokenLogos: position.tokenLogos,
-          buyPrice: averageBuyPrice,
-          sellPrice,
-          buyDate: new Date(earliestBuyTimestamp).toISOString().split('T')[0],
-          sellDate: new Date(sell.timestamp).toISOString().split('T')[0],
-          amount: matchedAmount,
-          realizedProfit,
-          unrealizedProfit: currentValue - buyValue,
-          regretAmount: missedSinceSell,
-          regretPercent,
-          peakPrice: effectiveCurrentPrice,
-          peakDate: new Date().toISOString().split('T')[0],
-          marketCap,
-          txHash: sell.signature.slice(0, 8),
-          explorerUrl: `https://solscan.io/tx/${sell.signature}`
-        });
-      }
+  let nextIdx = 0;
+  const worker = async () => {
+    while (nextIdx < firstTrades.length) {
+      signal?.throwIfAborted();
+      const [tokenMint, firstTradeTimestamp] = firstTrades[nextIdx++];
+      await priceMint(tokenMint, firstTradeTimestamp);
     }
-  }
+  };
 
-  return events.sort((a, b) => b.regretAmount - a.regretAmount);
-}
+  try {
+    await Promise.all(Array.from({ length: Math.min(PRICING_CONCURRENCY, firstTrades.length) }, worker));
+  } finally {
+    clearTimeout(deadlineId);
+  }
 
-/**
- * Generate comprehensive wallet statistics from paperhands events
- */
-function generateWalletStats(
-  address: string,
-  events: PaperhandsEvent[],
-  daysBack?: number,
-  startDate?: Date,
-  endDate?: Date,
-  coinsTradedCount?: number,
-  isPartial?: boolean
-): WalletStats {
-  const totalRegret = events.reduce((sum, e) => sum + e.regretAmount, 0);
-  const totalRealized = events.reduce((sum, e) => sum + e.realizedProfit, 0);
-
-  // Calculate hold times
-  const holdTimes = events.map(e => {
-    const buy = new Date(e.buyDate).getTime();
-    const sell = new Date(e.sellDate).getTime();
-    return (sell - buy) / (1000 * 60 * 60 * 24); // days
-  });
-
-  const avgHoldTime = holdTimes.length > 0 ? holdTimes.reduce((a, b) => a + b, 0) / holdTimes.length : 0;
-
-  // Calculate win/loss rate
-  const wins = events.filter(e => e.realizedProfit > 0).length;
-  const winRate = events.length > 0 ? (wins / events.length) * 100 : 0;
-
-  // Calculate paperhands score (0-100, higher = worse paperhands)
-  const regretRatio = totalRealized !== 0 ? totalRegret / Math.abs(totalRealized) : 0;
-  const paperhandsScore = Math.min(Math.round(regretRatio * 10), 100);
-
-  return {
-    address,
-    ensName: undefined, // Could fetch from SNS
-    handle: `@${address.slice(0, 8)}`,
-    bio: 'Analyzed wallet - check out my paperhands moments',
-    tags: inferTradingStyle(events),
-    socials: {},
-    paperhandsScore,
-    totalRegret,
-    totalRegretPercent: totalRealized !== 0 ? Math.round((totalRegret / Math.abs(totalRealized)) * 100) : 0,
-    worstLoss: events.length > 0 ? Math.max(...events.map(e => e.regretAmount)) : 0,
-    totalExitedEarly: events.length,
-    totalEvents: events.length,
-    avgHoldTime: Math.round(avgHoldTime),
-    avgShouldaHoldTime: 0, // Removed fake "shoulda held" metric
-    winRate: Math.round(winRate),
-    lossRate: Math.round(100 - Math.min(Math.round(winRate), 100)),
-    topRegrettedTokens: (() => {
-      // Aggregate regret by tokenMint (fallback to symbol)
-      const byMint = new Map<string, { regret: number; symbol: string; tokenLogo?: string; tokenLogos?: string[] }>();
-      for (const e of events) {
-        const key = e.tokenMint || e.tokenSymbol;
-        const entry = byMint.get(key) || { regret: 0, symbol: e.tokenSymbol, tokenLogo: e.tokenLogo, tokenLogos: e.tokenLogos };
-        entry.regret += e.regretAmount;
-        entry.symbol = e.tokenSymbol || entry.symbol;
-        if (!entry.tokenLogo && e.tokenLogo) {
-          entry.tokenLogo = e.tokenLogo;
-        }
-        if (e.tokenLogos && e.tokenLogos.length > 0) {
-          const existing = new Set(entry.tokenLogos ?? []);
-          for (const logo of e.tokenLogos) {
-            if (logo) existing.add(logo);
-          }
-          entry.tokenLogos = Array.from(existing);
-        }
-        byMint.set(key, entry);
-      }
-      return Array.from(byMint.entries())
-        .sort((a, b) => b[1].regret - a[1].regret)
-        .slice(0, 3)
-        .map(([mint, v]) => ({
-          symbol: v.symbol,
-          tokenMint: mint,
-          regretAmount: v.regret,
-          tokenLogo: v.tokenLogo,
-          tokenLogos: v.tokenLogos,
-        }));
-    })(),
-    events,
-    analysisDateRange: daysBack && startDate && endDate ? {
-      startDate: startDate.toISOString(),
-      endDate: endDate.toISOString(),
-      daysBack
-    } : undefined,
-    coinsTraded: coinsTradedCount,
-    isPartial: isPartial ?? false,
-  };
-}
+  if (withoutHistory > 0) {
+    console.warn(`Pricing deadline reached: ${withoutHistory} tokens valued at their current price only`);
+    onProgress?.({ message: `Out of time for price history - ${withoutHistory} tokens use current prices only` });
+  }
 
-/**
- * Infer trading style from behavior patterns
- */
-function inferTradingStyle(events: PaperhandsEvent[]): string[] {
-  const tags: string[] = [];
-
-  const avgHold = events.reduce((sum, e) => {
-    const buy = new Date(e.buyDate).getTime();
-    const sell = new Date(e.sellDate).getTime();
-    return sum + (sell - buy) / (1000 * 60 * 60 * 24);
-  }, 0) / events.length;
-
-  if (avgHold < 7) tags.push('Scalper');
-  else if (avgHold < 30) tags.push('Swing');
-  else tags.push('Hold');
-
-  const avgRegretPercent = events.reduce((sum, e) => sum + e.regretPercent, 0) / events.length;
-  
-  if (avgRegretPercent > 500) tags.push('Diamond Jeet');
-  else if (avgRegretPercent > 200) tags.push('Jeet');
-  else tags.push('Paper');
-
-  return tags;
+  return snapshot;
 }
@@ -0,0 +1,339 @@
+/**
+ * Historical Price Series Service
+ *
+ * Fetches OHLCV candles per mint (GeckoTerminal, using the deepest DexScreener pool)
+ * and keeps them in the token_price_candles table so repeat scans don't refetch.
+ * The table is only used server-side with the service role; browser scans fetch directly.
+ * Used to find the real post-sell peak instead of assuming "today's price is the peak".
+ */
+
+import { getServiceSupabaseClient } from '@/integrations/supabase/runtime';
+import { isAbortError } from '@/lib/abort';
+import { scheduledFetch } from './request-scheduler';
+import { getCachedPairAddress } from './token-prices';
+
+export type CandleResolution = 'hour' | 'day';
+
+export interface PriceCandle {
+  /** Bucket open time (ms) */
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface PricePeak {
+  price: number;
+  timestamp: number;
+}
+
+const GECKOTERMINAL_API = 'https://api.geckoterminal.com/api/v2/networks/solana';
+const GECKOTERMINAL_PAGE_LIMIT = 1000;
+const MAX_PAGES_PER_FETCH = 4;
+
+const RESOLUTION_MS: Record<CandleResolution, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+// Hourly candles are precise enough for short windows; beyond ~40 days switch to daily
+const HOURLY_WINDOW_MS = 40 * RESOLUTION_MS.day;
+
+// In-process lookups are shared this long. Candle keys roll over every hour anyway,
+// so older entries would only pile up on a long-running server.
+const LOOKUP_TTL_MS = RESOLUTION_MS.hour;
+const MAX_CACHED_LOOKUPS = 5000;
+
+interface CachedLookup<T> {
+  promise: Promise<T>;
+  expiresAt: number;
+}
+
+const poolAddressCache = new Map<string, CachedLookup<string | null>>();
+const candleCache = new Map<string, CachedLookup<PriceCandle[]>>();
+
+function getCachedLookup<T>(cache: Map<string, CachedLookup<T>>, key: string): Promise<T> | undefined {
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt > Date.now()) return entry.promise;
+  cache.delete(key);
+  return undefined;
+}
+
+function setCachedLookup<T>(cache: Map<string, CachedLookup<T>>, key: string, promise: Promise<T>): Promise<T> {
+  cache.set(key, { promise, expiresAt: Date.now() + LOOKUP_TTL_MS });
+
+  if (cache.size > MAX_CACHED_LOOKUPS) {
+    const now = Date.now();
+    for (const [cachedKey, entry] of cache) {
+      if (entry.expiresAt <= now) cache.delete(cachedKey);
+    }
+    // Still full: drop the oldest entries (Maps iterate in insertion order)
+    for (const cachedKey of cache.keys()) {
+      if (cache.size <= MAX_CACHED_LOOKUPS) break;
+      cache.delete(cachedKey);
+    }
+  }
+  return promise;
+}
+
+export function pickResolution(fromMs: number, toMs: number = Date.now()): CandleResolution {
+  return toMs - fromMs <= HOURLY_WINDOW_MS ? 'hour' : 'day';
+}
+
+/**
+ * Most liquid pool for a mint (the pool GeckoTerminal candles are read from).
+ * Reuses the pair the current price was quoted from when this process has it.
+ */
+async function resolvePoolAddress(tokenMint: string, signal?: AbortSignal): Promise<string | null> {
+  const quotedPair = getCachedPairAddress(tokenMint);
+  if (quotedPair) return quotedPair;
+
+  let lookup = getCachedLookup(poolAddressCache, tokenMint);
+  if (!lookup) {
+    lookup = setCachedLookup(poolAddressCache, tokenMint, (async () => {
+      try {
+        const response = await scheduledFetch('dexscreener', `https://api.dexscreener.com/latest/dex/tokens/${tokenMint}`, { signal });
+        if (!response.ok) {
+          // Not cached, so the next scan asks again
+          poolAddressCache.delete(tokenMint);
+          return null;
+        }
+        const data = await response.json();
+        const pairs = Array.isArray(data?.pairs) ? data.pairs : [];
+        const solanaPairs = pairs.filter((pair: any) => pair?.chainId === 'solana' && pair?.pairAddress);
+        if (solanaPairs.length === 0) return null;
+        const best = solanaPairs.reduce((prev: any, cur: any) =>
+          Number(cur?.liquidity?.usd || 0) > Number(prev?.liquidity?.usd || 0) ? cur : prev
+        );
+        return best.pairAddress as string;
+      } catch (error) {
+        poolAddressCache.delete(tokenMint);
+        if (isAbortError(error)) throw error;
+        console.warn('Pool lookup failed for', tokenMint);
+        return null;
+      }
+    })());
+  }
+
+  try {
+    return await lookup;
+  } catch (error) {
+    // The scan that started the shared lookup was cancelled; start our own
+    if (isAbortError(error) && !signal?.aborted) return resolvePoolAddress(tokenMint, signal);
+    throw error;
+  }
+}
+
+async function fetchGeckoTerminalCandles(
+  tokenMint: string,
+  poolAddress: string,
+  resolution: CandleResolution,
+  fromMs: number,
+  toMs: number,
+  signal?: AbortSignal
+): Promise<PriceCandle[]> {
+  const candles: PriceCandle[] = [];
+  let beforeSec = Math.ceil(toMs / 1000);
+
+  for (let page = 0; page < MAX_PAGES_PER_FETCH; page++) {
+    const url = new URL(`${GECKOTERMINAL_API}/pools/${poolAddress}/ohlcv/${resolution}`);
+    url.searchParams.set('aggregate', '1');
+    url.searchParams.set('limit', GECKOTERMINAL_PAGE_LIMIT.toString());
+    url.searchParams.set('before_timestamp', beforeSec.toString());
+    url.searchParams.set('currency', 'usd');
+    url.searchParams.set('token', tokenMint);
+
+    const response = await scheduledFetch('geckoterminal', url.toString(), { headers: { Accept: 'application/json' }, signal });
+    if (!response.ok) {
+      throw new Error(`GeckoTerminal HTTP error ${response.status}`);
+    }
+
+    const data = await response.json();
+    const list: number[][] = data?.data?.attributes?.ohlcv_list ?? [];
+    if (list.length === 0) break;
+
+    for (const [ts, open, high, low, close, volume] of list) {
+      candles.push({ timestamp: ts * 1000, open, high, low, close, volume: volume ?? 0 });
+    }
+
+    // ohlcv_list is newest first
+    const oldestSec = list[list.length - 1][0];
+    if (oldestSec * 1000 <= fromMs || list.length < GECKOTERMINAL_PAGE_LIMIT) break;
+    beforeSec = oldestSec;
+  }
+
+  return candles;
+}
+
+async function readStoredCandles(
+  tokenMint: string,
+  resolution: CandleResolution,
+  fromMs: number,
+  toMs: number
+): Promise<PriceCandle[]> {
+  const supabase = await getServiceSupabaseClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('token_price_candles')
+    .select('bucket_start, open, high, low, close, volume')
+    .eq('mint', tokenMint)
+    .eq('resolution', resolution)
+    .gte('bucket_start', new Date(fromMs - RESOLUTION_MS[resolution]).toISOString())
+    .lte('bucket_start', new Date(toMs).toISOString())
+    .order('bucket_start', { ascending: true });
+
+  if (error) {
+    console.warn('Failed to read stored candles:', error.message);
+    return [];
+  }
+
+  return (data ?? []).map(row => ({
+    timestamp: new Date(row.bucket_start).getTime(),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume: Number(row.volume ?? 0),
+  }));
+}
+
+async function storeCandles(
+  tokenMint: string,
+  resolution: CandleResolution,
+  poolAddress: string,
+  candles: PriceCandle[]
+): Promise<void> {
+  if (candles.length === 0) return;
+  const supabase = await getServiceSupabaseClient();
+  if (!supabase) return;
+
+  const { error } = await supabase
+    .from('token_price_candles')
+    .upsert(candles.map(candle => ({
+      mint: tokenMint,
+      resolution,
+      bucket_start: new Date(candle.timestamp).toISOString(),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      pool_address: poolAddress,
+    })), {
+      onConflict: 'mint,resolution,bucket_start',
+    });
+
+  if (error) {
+    console.warn('Failed to store candles:', error.message);
+  }
+}
+
+function coversRange(candles: PriceCandle[], resolution: CandleResolution, fromMs: number, toMs: number): boolean {
+  if (candles.length === 0) return false;
+  const step = RESOLUTION_MS[resolution];
+  // The newest bucket may still be open, so allow up to two buckets of lag at the end
+  return candles[0].timestamp <= fromMs + step && candles[candles.length - 1].timestamp >= toMs - 2 * step;
+}
+
+/**
+ * Candles for a mint covering [fromMs, toMs], oldest first.
+ * Reads the database first and only hits GeckoTerminal when the stored range has gaps.
+ * Returns [] when no pool/price history exists for the token; rejects only when aborted.
+ */
+export async function getPriceCandles(
+  tokenMint: string,
+  fromMs: number,
+  toMs: number = Date.now(),
+  resolution: CandleResolution = pickResolution(fromMs, toMs),
+  signal?: AbortSignal
+): Promise<PriceCandle[]> {
+  const step = RESOLUTION_MS[resolution];
+  // Align the range so scans a few minutes apart share the in-process cache entry
+  const alignedFrom = Math.floor(fromMs / step) * step;
+  const alignedTo = Math.ceil(toMs / step) * step;
+  const cacheKey = `${tokenMint}:${resolution}:${alignedFrom}:${alignedTo}`;
+
+  let lookup = getCachedLookup(candleCache, cacheKey);
+  if (!lookup) {
+    lookup = setCachedLookup(candleCache, cacheKey, (async () => {
+      try {
+        const stored = await readStoredCandles(tokenMint, resolution, alignedFrom, alignedTo);
+        if (coversRange(stored, resolution, alignedFrom, Math.min(alignedTo, Date.now()))) {
+          return stored;
+        }
+
+        const poolAddress = await resolvePoolAddress(tokenMint, signal);
+        if (!poolAddress) return stored;
+
+        const fetched = await fetchGeckoTerminalCandles(tokenMint, poolAddress, resolution, alignedFrom, alignedTo, signal);
+        await storeCandles(tokenMint, resolution, poolAddress, fetched);
+
+        const byTimestamp = new Map<number, PriceCandle>();
+        for (const candle of [...stored, ...fetched]) {
+          byTimestamp.set(candle.timestamp, candle);
+        }
+        return Array.from(byTimestamp.values())
+          .filter(candle => candle.timestamp >= alignedFrom - step && candle.timestamp <= alignedTo)
+          .sort((a, b) => a.timestamp - b.timestamp);
+      } catch (error) {
+        candleCache.delete(cacheKey);
+        if (isAbortError(error)) throw error;
+        console.warn(`Price history unavailable for ${tokenMint}:`, error instanceof Error ? error.message : error);
+        return [];
+      }
+    })());
+  }
+
+  try {
+    return await lookup;
+  } catch (error) {
+    // The scan that started the shared fetch was cancelled; start our own
+    if (isAbortError(error) && !signal?.aborted) {
+      return getPriceCandles(tokenMint, fromMs, toMs, resolution, signal);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Highest traded price in buckets that opened after `sinceMs`
+ */
+export function findPeakSince(candles: PriceCandle[], sinceMs: number): PricePeak | null {
+  let peak: PricePeak | null = null;
+  for (const candle of candles) {
+    if (candle.timestamp < sinceMs) continue;
+    if (!Number.isFinite(candle.high) || candle.high <= 0) continue;
+    if (!peak || candle.high > peak.price) {
+      peak = { price: candle.high, timestamp: candle.timestamp };
+    }
+  }
+  return peak;
+}
+
+/**
+ * Price at a point in time from candles (midpoint of the bucket containing it,
+ * or the nearest earlier bucket). Candles must be sorted oldest first.
+ */
+export function priceAt(candles: PriceCandle[], timestampMs: number): number | null {
+  let lo = 0;
+  let hi = candles.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid].timestamp <= timestampMs) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  const candle = found >= 0 ? candles[found] : candles[0];
+  if (!candle) return null;
+  const price = (candle.open + candle.close) / 2;
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
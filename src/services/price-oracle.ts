@@ -0,0 +1,318 @@
+/**
+ * Current Price Oracle
+ *
+ * Quotes mints from DexScreener, the Jupiter Price API and Birdeye (server-side with
+ * BIRDEYE_API_KEY set), each in batches, and combines what they report, so one dust
+ * pool can't set the price that every regret number is computed from:
+ * - each observation is weighted by the USD liquidity behind it; Jupiter reports
+ *   none, so it counts as the median liquidity of the others
+ * - observations more than OUTLIER_TOLERANCE away from the weighted median are dropped
+ *   (an even split, like two equally weighted sources, centers between them)
+ * - the price is the weighted mean of what's left, attributed to its heaviest source
+ * - when nothing agrees with the median, the source with the most reported liquidity
+ *   wins at low confidence; without any reported liquidity there is no price
+ * - confidence: high when 2+ sources agree and none was dropped, medium when 2+ agree
+ *   after dropping one or a single source sits on LIQUID_POOL_USD, low otherwise
+ */
+
+import { BIRDEYE_API_URL, getBirdeyeApiKey, JUPITER_PRICE_API } from '@/config/api';
+import { isAbortError } from '@/lib/abort';
+import type { PriceConfidence, PriceSource } from '@/types/paperhands';
+import { scheduledFetch } from './request-scheduler';
+
+export type OracleSource = Exclude<PriceSource, 'trade'>;
+
+export interface TokenQuote {
+  /** USD price, 0 when no source lists the mint */
+  price: number;
+  /** Market cap (FDV when DexScreener has it), 0 when unknown */
+  marketCap: number;
+  priceChange24h?: number;
+  /** Absent when no source had a price */
+  source?: OracleSource;
+  confidence?: PriceConfidence;
+  /** Deepest DexScreener pair (only for quotes fetched by this process) */
+  pairAddress?: string;
+  liquidityUsd?: number;
+}
+
+interface PriceObservation {
+  source: OracleSource;
+  price: number;
+  liquidityUsd?: number;
+}
+
+/** What one provider said about one batch: observations by mint, or null when the request failed */
+type ProviderBatch = Map<string, PriceObservation> | null;
+
+const DEXSCREENER_TOKENS_API = 'https://api.dexscreener.com/latest/dex/tokens';
+// Most addresses each API accepts in one request
+const DEXSCREENER_BATCH_SIZE = 30;
+const JUPITER_BATCH_SIZE = 50;
+const BIRDEYE_BATCH_SIZE = 100;
+// Farther than this from the weighted median (either way) counts as an outlier
+const OUTLIER_TOLERANCE = 0.2;
+// A single source on a pool this deep is still a reasonable price
+const LIQUID_POOL_USD = 50_000;
+
+export const EMPTY_QUOTE: TokenQuote = { price: 0, marketCap: 0 };
+
+function toNumber(value: unknown): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+/**
+ * Deepest Solana pair per base token mint, among the requested mints
+ */
+function pickBestPairs(pairs: any[], tokenMints: string[]): Map<string, any> {
+  const wanted = new Set(tokenMints);
+  const best = new Map<string, any>();
+
+  for (const pair of pairs) {
+    const mint = pair?.baseToken?.address;
+    if (pair?.chainId !== 'solana' || !wanted.has(mint) || toNumber(pair.priceUsd) <= 0) continue;
+    const current = best.get(mint);
+    if (!current || toNumber(pair.liquidity?.usd) > toNumber(current.liquidity?.usd)) {
+      best.set(mint, pair);
+    }
+  }
+
+  return best;
+}
+
+/**
+ * One DexScreener request; its deepest pairs also supply market cap and the pool address
+ */
+async function fetchDexScreenerBatch(
+  tokenMints: string[],
+  signal?: AbortSignal
+): Promise<{ observations: ProviderBatch; pairs: Map<string, any> }> {
+  try {
+    const response = await scheduledFetch('dexscreener', `${DEXSCREENER_TOKENS_API}/${tokenMints.join(',')}`, { signal });
+    if (!response.ok) {
+      console.warn(`DexScreener price batch failed (HTTP ${response.status}) for ${tokenMints.length} mints`);
+      return { observations: null, pairs: new Map() };
+    }
+    const data = await response.json();
+    const pairs = pickBestPairs(Array.isArray(data?.pairs) ? data.pairs : [], tokenMints);
+
+    const observations = new Map<string, PriceObservation>();
+    for (const [tokenMint, pair] of pairs) {
+      observations.set(tokenMint, {
+        source: 'dexscreener',
+        price: toNumber(pair.priceUsd),
+        liquidityUsd: toNumber(pair.liquidity?.usd),
+      });
+    }
+    return { observations, pairs };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn(`DexScreener price batch failed for ${tokenMints.length} mints`);
+    return { observations: null, pairs: new Map() };
+  }
+}
+
+async function fetchJupiterBatch(tokenMints: string[], signal?: AbortSignal): Promise<ProviderBatch> {
+  try {
+    const response = await scheduledFetch(
+      'jupiter',
+      `${JUPITER_PRICE_API}?ids=${tokenMints.join(',')}`,
+      { signal },
+      { priority: 'low' }
+    );
+    if (!response.ok) {
+      console.warn(`Jupiter price batch failed (HTTP ${response.status}) for ${tokenMints.length} mints`);
+      return null;
+    }
+    // { [mint]: { usdPrice, priceChange24h, ... } }, mints without a price are left out
+    const data = await response.json();
+
+    const observations = new Map<string, PriceObservation>();
+    for (const tokenMint of tokenMints) {
+      const price = toNumber(data?.[tokenMint]?.usdPrice);
+      if (price > 0) observations.set(tokenMint, { source: 'jupiter', price });
+    }
+    return observations;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn(`Jupiter price batch failed for ${tokenMints.length} mints`);
+    return null;
+  }
+}
+
+async function fetchBirdeyeBatch(tokenMints: string[], apiKey: string, signal?: AbortSignal): Promise<ProviderBatch> {
+  try {
+    const url = `${BIRDEYE_API_URL}/defi/multi_price?include_liquidity=true&list_address=${tokenMints.join(',')}`;
+    const response = await scheduledFetch('birdeye', url, {
+      signal,
+      headers: { 'x-chain': 'solana', 'X-API-KEY': apiKey },
+    }, { priority: 'low' });
+    if (!response.ok) {
+      console.warn(`Birdeye price batch failed (HTTP ${response.status}) for ${tokenMints.length} mints`);
+      return null;
+    }
+    const data = await response.json();
+
+    const observations = new Map<string, PriceObservation>();
+    for (const tokenMint of tokenMints) {
+      const entry = data?.data?.[tokenMint];
+      const price = toNumber(entry?.value);
+      if (price > 0) {
+        observations.set(tokenMint, {
+          source: 'birdeye',
+          price,
+          liquidityUsd: entry?.liquidity !== undefined ? toNumber(entry.liquidity) : undefined,
+        });
+      }
+    }
+    return observations;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn(`Birdeye price batch failed for ${tokenMints.length} mints`);
+    return null;
+  }
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * One price out of every source's observation (see the header for the rules)
+ */
+function combineObservations(observations: PriceObservation[]): Pick<TokenQuote, 'price' | 'source' | 'confidence'> {
+  if (observations.length === 0) return { price: 0 };
+
+  const knownLiquidity = observations
+    .map(observation => observation.liquidityUsd)
+    .filter((liquidity): liquidity is number => liquidity !== undefined && liquidity > 0);
+  const fallbackWeight = median(knownLiquidity) ?? 1;
+  const weighted = observations
+    .map(observation => ({
+      ...observation,
+      weight: observation.liquidityUsd && observation.liquidityUsd > 0 ? observation.liquidityUsd : fallbackWeight,
+    }))
+    .sort((a, b) => a.price - b.price);
+
+  // Weighted median: the price where half the liquidity sits on either side
+  const halfWeight = weighted.reduce((sum, observation) => sum + observation.weight, 0) / 2;
+  let cumulative = 0;
+  let center = weighted[weighted.length - 1].price;
+  for (let index = 0; index < weighted.length - 1; index++) {
+    cumulative += weighted[index].weight;
+    if (Math.abs(cumulative - halfWeight) <= halfWeight * 1e-9) {
+      center = (weighted[index].price + weighted[index + 1].price) / 2;
+      break;
+    }
+    if (cumulative > halfWeight) {
+      center = weighted[index].price;
+      break;
+    }
+  }
+
+  const kept = weighted.filter(observation => Math.abs(observation.price - center) <= center * OUTLIER_TOLERANCE);
+  if (kept.length === 0) {
+    const listed = observations.map(o => `${o.source}=${o.price}`).join(', ');
+    const deepest = weighted
+      .filter(observation => observation.liquidityUsd && observation.liquidityUsd > 0)
+      .reduce<typeof weighted[number] | undefined>((best, observation) =>
+        !best || observation.liquidityUsd! > best.liquidityUsd! ? observation : best, undefined);
+    if (!deepest) {
+      console.warn(`Prices disagree with no liquidity to break the tie (${listed}), leaving the mint unpriced`);
+      return { price: 0 };
+    }
+    console.warn(`Prices disagree (${listed}), taking ${deepest.source} for its liquidity`);
+    return { price: deepest.price, source: deepest.source, confidence: 'low' };
+  }
+
+  const rejected = weighted.length - kept.length;
+  if (rejected > 0) {
+    const dropped = weighted.filter(observation => !kept.includes(observation));
+    console.warn(`Dropped outlier prices ${dropped.map(o => `${o.source}=${o.price}`).join(', ')} (median ${center})`);
+  }
+
+  const keptWeight = kept.reduce((sum, observation) => sum + observation.weight, 0);
+  const price = kept.reduce((sum, observation) => sum + observation.price * observation.weight, 0) / keptWeight;
+  const heaviest = kept.reduce((best, observation) => observation.weight > best.weight ? observation : best);
+  const deepestPool = Math.max(0, ...kept.map(observation => observation.liquidityUsd ?? 0));
+
+  const confidence: PriceConfidence = kept.length >= 2 && rejected === 0
+    ? 'high'
+    : kept.length >= 2 || deepestPool >= LIQUID_POOL_USD
+      ? 'medium'
+      : 'low';
+
+  return { price, source: heaviest.source, confidence };
+}
+
+/**
+ * Quotes for the mints from every provider. Mints whose requests all failed are left
+ * out (so callers don't cache them); mints nobody lists get EMPTY_QUOTE.
+ */
+export async function fetchOracleQuotes(tokenMints: string[], signal?: AbortSignal): Promise<Map<string, TokenQuote>> {
+  const birdeyeKey = getBirdeyeApiKey();
+  const [dexScreener, jupiter, birdeye] = await Promise.all([
+    Promise.all(chunk(tokenMints, DEXSCREENER_BATCH_SIZE).map(batch => fetchDexScreenerBatch(batch, signal))),
+    Promise.all(chunk(tokenMints, JUPITER_BATCH_SIZE).map(batch => fetchJupiterBatch(batch, signal))),
+    birdeyeKey
+      ? Promise.all(chunk(tokenMints, BIRDEYE_BATCH_SIZE).map(batch => fetchBirdeyeBatch(batch, birdeyeKey, signal)))
+      : Promise.resolve([]),
+  ]);
+
+  // Mints at least one provider answered for (even if only to say it has no price)
+  const answered = new Set<string>();
+  const observations = new Map<string, PriceObservation[]>();
+  const pairs = new Map<string, any>();
+
+  const collect = (batches: ProviderBatch[], batchSize: number) => {
+    batches.forEach((batch, index) => {
+      if (!batch) return;
+      tokenMints.slice(index * batchSize, (index + 1) * batchSize).forEach(tokenMint => answered.add(tokenMint));
+      for (const [tokenMint, observation] of batch) {
+        observations.set(tokenMint, [...(observations.get(tokenMint) ?? []), observation]);
+      }
+    });
+  };
+  collect(dexScreener.map(result => result.observations), DEXSCREENER_BATCH_SIZE);
+  collect(jupiter, JUPITER_BATCH_SIZE);
+  collect(birdeye, BIRDEYE_BATCH_SIZE);
+  for (const result of dexScreener) {
+    for (const [tokenMint, pair] of result.pairs) pairs.set(tokenMint, pair);
+  }
+
+  const quotes = new Map<string, TokenQuote>();
+  for (const tokenMint of tokenMints) {
+    if (!answered.has(tokenMint)) continue;
+
+    const combined = combineObservations(observations.get(tokenMint) ?? []);
+    if (combined.price <= 0) {
+      quotes.set(tokenMint, EMPTY_QUOTE);
+      continue;
+    }
+
+    // DexScreener's market cap is supply x its own price; rescale it to the combined one
+    const pair = pairs.get(tokenMint);
+    const pairPrice = toNumber(pair?.priceUsd);
+    quotes.set(tokenMint, {
+      ...combined,
+      marketCap: pairPrice > 0 ? toNumber(pair.fdv || pair.marketCap) * (combined.price / pairPrice) : 0,
+      priceChange24h: pair?.priceChange?.h24 !== undefined ? toNumber(pair.priceChange.h24) : undefined,
+      pairAddress: pair?.pairAddress,
+      liquidityUsd: pair ? toNumber(pair.liquidity?.usd) : undefined,
+    });
+  }
+
+  return quotes;
+}
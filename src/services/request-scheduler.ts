@@ -0,0 +1,274 @@
+/**
+ * Outbound Request Scheduler
+ *
+ * Every call to a third-party API goes through here, so concurrent scans share one
+ * budget per provider (PROVIDER_RATE_LIMITS) instead of each pacing itself:
+ * - a token bucket refilled at ratePerSecond, holding up to `burst` requests
+ * - at most maxConcurrent requests in flight
+ * - after a 429 (or a 503 with Retry-After) the provider pauses for as long as
+ *   Retry-After asks, and the throttled request is retried ahead of its peers
+ * - waiting requests start by priority, then in arrival order
+ *
+ * State is per process: on the server every scan shares it, in the browser a tab
+ * shares it across its own scans. getRequestSchedulerStats reports how close each
+ * provider is to its quota.
+ */
+
+import { PROVIDER_RATE_LIMITS, ProviderRateLimit, RateLimitedProvider } from '@/config/api';
+
+export type SchedulePriority = 'high' | 'normal' | 'low';
+
+export interface ScheduleOptions {
+  priority?: SchedulePriority;
+  /** Drops the request from the queue (or aborts it in flight) */
+  signal?: AbortSignal;
+}
+
+export interface ProviderStats {
+  ratePerSecond: number;
+  maxConcurrent: number;
+  inFlight: number;
+  queued: number;
+  /** Requests started in the last minute */
+  requestsLastMinute: number;
+  /** requestsLastMinute as a share of the per-minute budget (1 = at the limit) */
+  quotaUsed: number;
+  /** Average time requests started in the last minute spent queued */
+  avgQueueMs: number;
+  /** 429/503 responses seen since startup */
+  throttled: number;
+  /** Time left on a Retry-After pause */
+  pausedForMs: number;
+}
+
+interface PendingRequest {
+  rank: number;
+  seq: number;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+interface ProviderState {
+  limit: ProviderRateLimit;
+  tokens: number;
+  refilledAt: number;
+  inFlight: number;
+  /** Sorted by rank, then seq */
+  queue: PendingRequest[];
+  pausedUntil: number;
+  timer?: ReturnType<typeof setTimeout>;
+  recent: Array<{ startedAt: number; queuedMs: number }>;
+  throttled: number;
+}
+
+const PRIORITY_RANK: Record<SchedulePriority, number> = { high: 0, normal: 1, low: 2 };
+const STATS_WINDOW_MS = 60_000;
+const DEFAULT_RETRY_AFTER_MS = 1000;
+const MAX_RETRY_AFTER_MS = 60_000;
+const MAX_THROTTLE_RETRIES = 3;
+
+const providerStates = new Map<RateLimitedProvider, ProviderState>();
+let nextSeq = 0;
+
+function stateOf(provider: RateLimitedProvider): ProviderState {
+  let state = providerStates.get(provider);
+  if (!state) {
+    const limit = PROVIDER_RATE_LIMITS[provider];
+    state = {
+      limit,
+      tokens: limit.burst,
+      refilledAt: Date.now(),
+      inFlight: 0,
+      queue: [],
+      pausedUntil: 0,
+      recent: [],
+      throttled: 0,
+    };
+    providerStates.set(provider, state);
+  }
+  return state;
+}
+
+function refill(state: ProviderState, now: number): void {
+  const elapsedSec = (now - state.refilledAt) / 1000;
+  state.tokens = Math.min(state.limit.burst, state.tokens + elapsedSec * state.limit.ratePerSecond);
+  state.refilledAt = now;
+}
+
+function pruneRecent(state: ProviderState, now: number): void {
+  const cutoff = now - STATS_WINDOW_MS;
+  const firstKept = state.recent.findIndex(entry => entry.startedAt >= cutoff);
+  state.recent.splice(0, firstKept < 0 ? state.recent.length : firstKept);
+}
+
+/**
+ * Start as many queued requests as tokens, the concurrency cap and any pause allow,
+ * and wake up again when the next one could start
+ */
+function pump(provider: RateLimitedProvider): void {
+  const state = stateOf(provider);
+  const now = Date.now();
+  refill(state, now);
+
+  while (
+    state.queue.length > 0 &&
+    state.inFlight < state.limit.maxConcurrent &&
+    now >= state.pausedUntil &&
+    state.tokens >= 1
+  ) {
+    const next = state.queue.shift()!;
+    state.tokens -= 1;
+    state.inFlight++;
+    state.recent.push({ startedAt: now, queuedMs: now - next.enqueuedAt });
+    next.start();
+  }
+  pruneRecent(state, now);
+
+  // A finishing request pumps again, so only token and pause waits need a timer
+  if (state.queue.length > 0 && state.inFlight < state.limit.maxConcurrent && !state.timer) {
+    const tokenWaitMs = ((1 - state.tokens) / state.limit.ratePerSecond) * 1000;
+    const waitMs = Math.max(state.pausedUntil - now, tokenWaitMs, 0);
+    state.timer = setTimeout(() => {
+      state.timer = undefined;
+      pump(provider);
+    }, Math.ceil(waitMs));
+  }
+}
+
+/**
+ * Wait for a slot (token + concurrency); the caller must release() it
+ */
+function acquire(provider: RateLimitedProvider, rank: number, seq: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const state = stateOf(provider);
+    const onAbort = () => {
+      const index = state.queue.indexOf(pending);
+      if (index >= 0) state.queue.splice(index, 1);
+      reject(signal!.reason);
+    };
+    const pending: PendingRequest = {
+      rank,
+      seq,
+      enqueuedAt: Date.now(),
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      },
+    };
+
+    const insertAt = state.queue.findIndex(other => other.rank > rank || (other.rank === rank && other.seq > seq));
+    state.queue.splice(insertAt < 0 ? state.queue.length : insertAt, 0, pending);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    pump(provider);
+  });
+}
+
+function release(provider: RateLimitedProvider): void {
+  stateOf(provider).inFlight--;
+  pump(provider);
+}
+
+/**
+ * Retry-After as delay-seconds or an HTTP date, in ms
+ */
+function parseRetryAfter(header: string | null, now: number = Date.now()): number {
+  if (!header) return DEFAULT_RETRY_AFTER_MS;
+  const seconds = Number(header);
+  const delayMs = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - now;
+  if (!Number.isFinite(delayMs)) return DEFAULT_RETRY_AFTER_MS;
+  return Math.min(Math.max(delayMs, 0), MAX_RETRY_AFTER_MS);
+}
+
+function pauseProvider(provider: RateLimitedProvider, delayMs: number): void {
+  const state = stateOf(provider);
+  state.throttled++;
+  state.pausedUntil = Math.max(state.pausedUntil, Date.now() + delayMs);
+}
+
+/**
+ * Run any outbound call (e.g. an SDK method) under a provider's budget
+ */
+export async function scheduleRequest<T>(
+  provider: RateLimitedProvider,
+  run: () => Promise<T>,
+  { priority = 'normal', signal }: ScheduleOptions = {}
+): Promise<T> {
+  await acquire(provider, PRIORITY_RANK[priority], nextSeq++, signal);
+  try {
+    return await run();
+  } finally {
+    release(provider);
+  }
+}
+
+/**
+ * fetch() under a provider's budget. Throttled responses pause the provider and
+ * are retried (up to MAX_THROTTLE_RETRIES), so callers only see a 429 once retries
+ * are exhausted. Request bodies must be replayable (strings, not streams).
+ */
+export async function scheduledFetch(
+  provider: RateLimitedProvider,
+  input: RequestInfo | URL,
+  init?: RequestInit,
+  { priority = 'normal', signal = init?.signal ?? undefined }: ScheduleOptions = {}
+): Promise<Response> {
+  const rank = PRIORITY_RANK[priority];
+  const seq = nextSeq++;
+
+  for (let attempt = 0; ; attempt++) {
+    await acquire(provider, rank, seq, signal);
+
+    let response: Response;
+    let throttled = false;
+    try {
+      response = await fetch(input, { ...init, signal });
+      const retryAfter = response.headers.get('Retry-After');
+      throttled = response.status === 429 || (response.status === 503 && retryAfter !== null);
+      if (throttled) {
+        // Pause before releasing the slot so nothing else slips out meanwhile
+        const delayMs = parseRetryAfter(retryAfter);
+        pauseProvider(provider, delayMs);
+        console.warn(`${provider} throttled (HTTP ${response.status}), pausing ${delayMs}ms`);
+      }
+    } finally {
+      release(provider);
+    }
+
+    if (!throttled || attempt >= MAX_THROTTLE_RETRIES) return response;
+    await response.body?.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * How close each provider is to its budget right now
+ */
+export function getRequestSchedulerStats(): Record<RateLimitedProvider, ProviderStats> {
+  const now = Date.now();
+  const stats = {} as Record<RateLimitedProvider, ProviderStats>;
+
+  for (const provider of Object.keys(PROVIDER_RATE_LIMITS) as RateLimitedProvider[]) {
+    const state = stateOf(provider);
+    pruneRecent(state, now);
+    const requestsLastMinute = state.recent.length;
+    const queuedMs = state.recent.reduce((sum, entry) => sum + entry.queuedMs, 0);
+
+    stats[provider] = {
+      ratePerSecond: state.limit.ratePerSecond,
+      maxConcurrent: state.limit.maxConcurrent,
+      inFlight: state.inFlight,
+      queued: state.queue.length,
+      requestsLastMinute,
+      quotaUsed: requestsLastMinute / (state.limit.ratePerSecond * (STATS_WINDOW_MS / 1000)),
+      avgQueueMs: requestsLastMinute > 0 ? Math.round(queuedMs / requestsLastMinute) : 0,
+      throttled: state.throttled,
+      pausedForMs: Math.max(0, state.pausedUntil - now),
+    };
+  }
+
+  return stats;
+}
@@ -0,0 +1,131 @@
+/**
+ * Scan Progress Tracker
+ *
+ * Folds the ScanProgressUpdates sources and fetchers report into ScanProgressEvents:
+ * running counts, one overall percent and an ETA. Percent ranges by phase:
+ * - fetching/parsing/enriching: 0-80, split evenly across the wallets of a cluster
+ *   and advanced by how far back through each wallet's history the source got
+ * - pricing: 80-95, by mints priced
+ * - scoring: 95, complete: 100
+ */
+
+import type {
+  ProgressCallback,
+  ProgressReporter,
+  ScanPhase,
+  ScanProgressCounts,
+  ScanProgressEvent,
+} from '@/types/progress';
+
+const HISTORY_PERCENT = 80;
+const PRICING_START_PERCENT = 80;
+const PRICING_END_PERCENT = 95;
+const SCORING_PERCENT = 95;
+// Without a window to measure against, each page is assumed to cover a share of what's left
+const OPEN_ENDED_PAGE_SCALE = 10;
+// Extrapolating from the first few percent is mostly noise
+const MIN_PERCENT_FOR_ETA = 5;
+
+export interface ProgressTracker {
+  report: ProgressReporter;
+  /** Start on the next wallet of the cluster (walletCount may grow as wallets are detected) */
+  startWallet(wallet: string, walletIndex: number, walletCount: number): void;
+  /** The last event emitted */
+  current(): ScanProgressEvent;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export function createProgressTracker(onProgress?: ProgressCallback, startedAt: number = Date.now()): ProgressTracker {
+  const counts: ScanProgressCounts = {
+    pages: 0,
+    transactions: 0,
+    transactionsParsed: 0,
+    swaps: 0,
+    unpricedSwaps: 0,
+    mintsPriced: 0,
+    mintsTotal: 0,
+  };
+  let phase: ScanPhase = 'fetching';
+  let message = 'Starting wallet analysis...';
+  let percent = 0;
+  let wallet: string | undefined;
+  let walletIndex = 0;
+  let walletCount = 1;
+  let walletFraction = 0;
+  let walletStartPages = 0;
+
+  const phasePercent = (): number => {
+    switch (phase) {
+      case 'fetching':
+      case 'parsing':
+      case 'enriching':
+        return HISTORY_PERCENT * Math.min(1, (walletIndex + walletFraction) / walletCount);
+      case 'pricing': {
+        const priced = counts.mintsTotal > 0 ? counts.mintsPriced / counts.mintsTotal : 0;
+        return PRICING_START_PERCENT + (PRICING_END_PERCENT - PRICING_START_PERCENT) * priced;
+      }
+      case 'scoring':
+        return SCORING_PERCENT;
+      case 'complete':
+        return 100;
+    }
+  };
+
+  const buildEvent = (waitingMs?: number): ScanProgressEvent => {
+    const now = Date.now();
+    const elapsedMs = now - startedAt;
+    const etaMs = percent >= MIN_PERCENT_FOR_ETA && percent < 100
+      ? Math.round((elapsedMs * (100 - percent)) / percent)
+      : undefined;
+
+    return {
+      phase,
+      message,
+      percent,
+      counts: { ...counts },
+      wallet,
+      walletIndex,
+      walletCount,
+      startedAt,
+      elapsedMs,
+      etaMs,
+      waitingMs,
+    };
+  };
+
+  let last = buildEvent();
+
+  const report: ProgressReporter = (update) => {
+    if (update.phase) phase = update.phase;
+    if (update.message) message = update.message;
+    for (const [key, value] of Object.entries(update.add ?? {})) {
+      counts[key as keyof ScanProgressCounts] += value ?? 0;
+    }
+
+    if (update.fraction !== undefined) {
+      walletFraction = Math.max(walletFraction, clamp01(update.fraction));
+    } else if (update.add?.pages) {
+      walletFraction = Math.max(
+        walletFraction,
+        1 - Math.exp(-(counts.pages - walletStartPages) / OPEN_ENDED_PAGE_SCALE)
+      );
+    }
+
+    percent = Math.max(percent, Math.round(phasePercent() * 10) / 10);
+    last = buildEvent(update.waitingMs);
+    onProgress?.(last);
+  };
+
+  return {
+    report,
+    startWallet: (nextWallet, nextIndex, nextCount) => {
+      wallet = nextWallet;
+      walletIndex = nextIndex;
+      walletCount = nextCount;
+      walletFraction = 0;
+      walletStartPages = counts.pages;
+    },
+    current: () => last,
+  };
+}
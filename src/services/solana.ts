@@ -4,12 +4,23 @@
  * This service handles all interactions with the Solana blockchain:
  * - Fetching wallet transactions
  * - Parsing DEX swaps
- * - Getting token balances and metadata
- * - Fetching price data
+ * - Getting token balances (metadata lives in ./token-metadata)
+ * - Pricing quote legs at trade time (current prices live in ./token-prices)
  */
 
 import { Connection, PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
-import { DEX_PROGRAMS, KNOWN_TOKENS } from '@/config/api';
+import { KNOWN_TOKENS } from '@/config/api';
+import { isAbortError, sleep } from '@/lib/abort';
+import type { ProgressReporter } from '@/types/progress';
+import { HeliusApiError, fetchEnhancedTransactionsPage } from './helius';
+import { getPriceCandles, priceAt } from './price-history';
+import { collectEnhancedInstructions, findSwapInstruction, resolveEnhancedDexLabel, touchesDexProgram, ProgramInstruction, UNKNOWN_DEX } from './dex-registry';
+import { addTokenDelta, classifyRotation, decodeSwapFields, isQuoteMint, parseRawAmount, RouteQuote, TokenDelta } from './swap-legs';
+import { isJitoTipAccount, priorityFeeLamports, splitFees, SwapFees, totalFeeLamports } from './swap-fees';
+import { decodeTransferFields, findCounterparty, TransferKind } from './transfer-legs';
+import { scheduledFetch } from './request-scheduler';
+import { getTokenMetadata, getTokenMetadataBatch, TokenMetadata } from './token-metadata';
+import { getTokenQuote } from './token-prices';
 
 // Use public RPC for basic operations - API key is handled server-side
 const SOLANA_RPC_URL = 'https://api.mainnet-beta.solana.com';
@@ -21,8 +32,6 @@ interface Transaction {
   err: any;
 }
 
-export type ProgressCallback = (message: string, percent: number) => void;
-
 export interface ParsedSwap {
   signature: string;
   timestamp: number;
@@ -31,23 +40,61 @@ export interface ParsedSwap {
   tokenName: string;
   tokenLogo?: string;
   tokenLogos?: string[];
-  type: 'buy' | 'sell';
+  /** Trades are buys/sells; transfer_in/out are token movements without a value leg */
+  type: 'buy' | 'sell' | 'transfer_in' | 'transfer_out';
+  /** Display amounts: the token side in UI units, the value side in USD once priced */
   amountIn: number;
   amountOut: number;
   pricePerToken: number;
+  /** Exact traded token amount in raw base units (what lot matching uses) */
+  tokenAmountRaw: bigint;
+  tokenDecimals: number;
   dex: string;
+  /** Mint of the value leg (WSOL for native SOL) */
+  quoteMint: string;
+  /** Symbol of the value leg, e.g. SOL, USDC, JitoSOL */
+  quoteCurrency: string;
+  /** Value leg as traded, in quote units (amountIn/amountOut hold the USD value) */
+  quoteAmount?: number;
+  /** Quote/USD price at trade time used for the conversion (1 for stablecoins) */
+  quoteUsdPrice?: number;
+  /** Native SOL value leg as traded, set when the quote is SOL */
+  solAmount?: number;
+  /** Fees the wallet paid to land this swap (split across the swaps of a rotation) */
+  fees?: SwapFees;
+  /** USD value of fees at the SOL price at trade time */
+  feeUsd?: number;
+  /** Transfers only: airdrop/claim, between own wallets, or with someone else */
+  transferKind?: TransferKind;
+  /** Transfers only: owner on the other side (none for mints and burns) */
+  counterparty?: string;
 }
 
-// Initialize Solana connection
-const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+// Placeholder venue for transfers
+const TRANSFER_DEX = 'Transfer';
+
+// Initialize Solana connection; its requests share the scheduler's RPC budget,
+// which also handles 429s (retryWithBackoff covers the rest)
+const connection = new Connection(SOLANA_RPC_URL, {
+  commitment: 'confirmed',
+  fetch: (input, init) => scheduledFetch('solana-rpc', input, init),
+  disableRetryOnRateLimit: true,
+});
 
 const HELIUS_DEFAULT_PAGE_SIZE = 500;
 const HELIUS_MIN_PAGE_SIZE = 100;
+const RPC_SIGNATURE_PAGE_SIZE = 1000;
+// RPC fallback progress: paging signatures vs fetching each transaction
+const RPC_SIGNATURES_SHARE = 0.2;
 
 /**
- * Sleep helper for rate limiting
+ * How far back through the analysis window paging has got (0-1), undefined without a window
  */
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+function windowFraction(blockTimeSec: number, cutoffSec: number): number | undefined {
+  if (cutoffSec <= 0 || blockTimeSec <= 0) return undefined;
+  const nowSec = Date.now() / 1000;
+  return Math.min(1, Math.max(0, (nowSec - blockTimeSec) / (nowSec - cutoffSec)));
+}
 
 /**
  * Retry with exponential backoff
@@ -55,9 +102,11 @@ const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 interface RetryOptions {
   maxRetries?: number;
   baseDelay?: number;
-  onProgress?: ProgressCallback;
+  onProgress?: ProgressReporter;
   isRetryable?: (error: unknown) => boolean;
   onRetry?: (attempt: number, delayMs: number, error: unknown, reason: string) => void;
+  /** Stops retrying (and the wait between attempts) once aborted */
+  signal?: AbortSignal;
 }
 
 const defaultRetryable = (error: unknown) => {
@@ -79,13 +128,15 @@ const defaultRetryable = (error: unknown) => {
 };
 
 async function retryWithBackoff<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
-  const { maxRetries = 5, baseDelay = 1200, onProgress, isRetryable = defaultRetryable, onRetry } = options;
+  const { maxRetries = 5, baseDelay = 1200, onProgress, isRetryable = defaultRetryable, onRetry, signal } = options;
   let lastError: unknown;
 
   for (let attempt = 0; attempt < maxRetries; attempt++) {
+    signal?.throwIfAborted();
     try {
       return await fn();
     } catch (error) {
+      if (signal?.aborted || isAbortError(error)) throw error;
       lastError = error;
       const shouldRetry = isRetryable(error);
       if (!shouldRetry || attempt === maxRetries - 1) {
@@ -102,33 +153,21 @@ async function retryWithBackoff<T>(fn: () => Promise<T>, options: RetryOptions =
       onRetry?.(attempt + 1, delay, error, reason);
       if (!onRetry) {
         if (reason === 'rate limited') {
-          onProgress?.(`Rate limited, waiting ${seconds}s...`, 0);
+          onProgress?.({ message: `Rate limited, waiting ${seconds}s...`, waitingMs: delay });
         } else {
-          onProgress?.(`Retrying after ${seconds}s due to ${reason}`, 0);
+          onProgress?.({ message: `Retrying after ${seconds}s due to ${reason}`, waitingMs: delay });
         }
       }
 
       console.warn(`Retrying in ${delay}ms due to ${reason} (attempt ${attempt + 1}/${maxRetries})`);
-      await sleep(delay);
+      await sleep(delay, signal);
     }
   }
 
   throw lastError;
 }
 
-class HeliusApiError extends Error {
-  status: number;
-  details?: unknown;
-
-  constructor(status: number, message: string, details?: unknown) {
-    super(message);
-    this.name = 'HeliusApiError';
-    this.status = status;
-    this.details = details;
-  }
-}
-
-// Helius API interactions now use server-side proxy routes
+// Helius API interactions go through ./helius (direct on the server, proxied in the browser)
 
 /**
  * Validate a Solana address
@@ -148,7 +187,10 @@ export function isValidSolanaAddress(address: string): boolean {
 export async function fetchWalletTransactions(
   walletAddress: string,
   daysBack?: number,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressReporter,
+  pageSize: number = RPC_SIGNATURE_PAGE_SIZE,
+  until?: string,
+  signal?: AbortSignal
 ): Promise<Transaction[]> {
   try {
     const cutoffTime = daysBack 
@@ -156,7 +198,7 @@ export async function fetchWalletTransactions(
       : 0;
     
     const timeRangeText = daysBack ? ` (last ${daysBack} days)` : '';
-    onProgress?.(`Fetching transaction history${timeRangeText}...`, 5);
+    onProgress?.({ phase: 'fetching', message: `Fetching transaction history${timeRangeText}...` });
     console.log(`Fetching transactions${timeRangeText} for ${walletAddress}...`);
     
     const pubkey = new PublicKey(walletAddress);
@@ -167,17 +209,19 @@ export async function fetchWalletTransactions(
     // Smart pagination with date cutoff
     while (true) {
       batchCount++;
-      const batchSize = 1000;
+      const batchSize = pageSize;
       
       const signatures = await retryWithBackoff(
         () => connection.getSignaturesForAddress(pubkey, { 
           limit: batchSize,
-          before 
+          before,
+          until,
         }),
         {
           maxRetries: 5,
           baseDelay: 1200,
           onProgress,
+          signal,
         }
       );
       
@@ -195,8 +239,16 @@ export async function fetchWalletTransactions(
       
       allSignatures.push(...filtered);
       
-      // Stop if we hit the cutoff date
       const oldestBlockTime = signatures[signatures.length - 1]?.blockTime || 0;
+      const reached = windowFraction(oldestBlockTime, cutoffTime);
+      onProgress?.({
+        phase: 'fetching',
+        message: `Fetching transactions${timeRangeText}... (${allSignatures.length} found)`,
+        add: { pages: 1, transactions: filtered.length },
+        fraction: reached !== undefined ? reached * RPC_SIGNATURES_SHARE : undefined,
+      });
+
+      // Stop if we hit the cutoff date
       if (cutoffTime > 0 && oldestBlockTime < cutoffTime) {
         console.log(`Reached cutoff date after ${batchCount} batches`);
         break;
@@ -208,416 +260,298 @@ export async function fetchWalletTransactions(
       }
       
       before = signatures[signatures.length - 1].signature;
-      
-      onProgress?.(
-        `Fetching transactions${timeRangeText}... (${allSignatures.length} found)`,
-        Math.min(5 + batchCount, 10)
-      );
     }
     
-    onProgress?.(`Found ${allSignatures.length} transactions${timeRangeText}`, 10);
+    onProgress?.({ message: `Found ${allSignatures.length} transactions${timeRangeText}`, fraction: RPC_SIGNATURES_SHARE });
     console.log(`Found ${allSignatures.length} transactions${timeRangeText}`);
     
     return allSignatures;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Error fetching transactions:', error);
     throw new Error('Failed to fetch wallet transactions. Rate limit may be exceeded, try again in a moment.');
   }
 }
 
+interface WalletDeltas {
+  tokenDeltas: Map<string, TokenDelta>;
+  nativeLamports: bigint;
+}
+
 /**
- * Get token metadata from Jupiter or cache
+ * Net wallet deltas from Helius' swap event: what the user put in and got out
+ * of the whole route, ignoring the intermediate hops
  */
-const tokenMetadataCache = new Map<string, { symbol: string; name: string; logo?: string; logos?: string[] }>();
-
-export async function getTokenMetadata(tokenMint: string): Promise<{
-  symbol: string;
-  name: string;
-  logo?: string;
-  logos?: string[];
-}> {
-  // Check cache first
-  if (tokenMetadataCache.has(tokenMint)) {
-    return tokenMetadataCache.get(tokenMint)!;
+function deltasFromSwapEvent(event: any, walletAddress: string): WalletDeltas {
+  const tokenDeltas = new Map<string, TokenDelta>();
+  const isWallet = (account?: string) => !account || account === walletAddress;
+
+  for (const input of event.tokenInputs ?? []) {
+    if (!input.mint || !isWallet(input.userAccount)) continue;
+    const raw = input.rawTokenAmount ?? {};
+    addTokenDelta(tokenDeltas, input.mint, -parseRawAmount(raw.tokenAmount), raw.decimals ?? 0);
+  }
+  for (const output of event.tokenOutputs ?? []) {
+    if (!output.mint || !isWallet(output.userAccount)) continue;
+    const raw = output.rawTokenAmount ?? {};
+    addTokenDelta(tokenDeltas, output.mint, parseRawAmount(raw.tokenAmount), raw.decimals ?? 0);
   }
 
-  // Handle known tokens
-  if (tokenMint === KNOWN_TOKENS.SOL) {
-    const logo = 'https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/So11111111111111111111111111111111111111112/logo.png';
-    const metadata = { symbol: 'SOL', name: 'Solana', logo, logos: [logo] };
-    tokenMetadataCache.set(tokenMint, metadata);
-    return metadata;
+  let nativeLamports = 0n;
+  if (event.nativeInput && isWallet(event.nativeInput.account)) {
+    nativeLamports -= parseRawAmount(event.nativeInput.amount);
   }
-  if (tokenMint === KNOWN_TOKENS.USDC) {
-    const logo = 'https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v/logo.png';
-    const metadata = { symbol: 'USDC', name: 'USD Coin', logo, logos: [logo] };
-    tokenMetadataCache.set(tokenMint, metadata);
-    return metadata;
+  if (event.nativeOutput && isWallet(event.nativeOutput.account)) {
+    nativeLamports += parseRawAmount(event.nativeOutput.amount);
   }
 
-  // Try Helius first, then fallbacks
-  const metadata = await getTokenMetadataWithHelius(tokenMint);
-  tokenMetadataCache.set(tokenMint, metadata);
-  return metadata;
+  return { tokenDeltas, nativeLamports };
 }
 
-async function getTokenMetadataWithHelius(tokenMint: string): Promise<{
-  symbol: string;
-  name: string;
-  logo?: string;
-  logos?: string[];
-}> {
-  const sources = [
-    getHeliusMetadata(tokenMint), // Primary source
-    getJupiterStrictMetadata(tokenMint), // Fallback 1
-    getBirdeyeMetadata(tokenMint), // Fallback 2
-    getSolanaTokenListMetadata(tokenMint), // Fallback 3
-  ];
-
-  try {
-    // Try Helius first with short timeout
-    const heliusResult = await Promise.race([
-      getHeliusMetadata(tokenMint),
-      new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Helius timeout')), 2000)
-      )
-    ]);
-    
-    // If Helius has good data with logo, return immediately
-    if (heliusResult.logo || heliusResult.logos?.length) {
-      return heliusResult;
-    }
-
-    // If Helius has data but no logo, try other sources for logos only
-    console.log(`Helius found metadata for ${tokenMint} but no logo, checking other sources...`);
-    const fallbackSources = sources.slice(1);
-    const fallbackResults = await Promise.allSettled(fallbackSources);
-    
-    const logos = collectLogosFromResults([{ status: 'fulfilled', value: heliusResult }, ...fallbackResults]);
-    
-    return {
-      symbol: heliusResult.symbol,
-      name: heliusResult.name,
-      logo: logos[0],
-      logos: logos.length > 0 ? logos : undefined,
-    };
+/**
+ * Quote asset passed between hops of a route, e.g. the SOL in A -> SOL -> B.
+ * Prefers the hop that sold the input token, else the hop that bought the output.
+ */
+function findRouteQuote(innerSwaps: any[] | undefined, soldMint: string, boughtMint: string): RouteQuote | null {
+  const hops = innerSwaps ?? [];
+  const toQuote = (transfer: any): RouteQuote => ({
+    mint: transfer.mint,
+    raw: parseRawAmount(transfer.rawTokenAmount?.tokenAmount),
+    decimals: transfer.rawTokenAmount?.decimals ?? 0,
+  });
 
-  } catch (error) {
-    // Helius failed or timed out, try all sources in parallel
-    console.log(`Helius primary failed for ${tokenMint}, trying all sources...`);
-    return getAllSourcesFallback(tokenMint, sources);
+  for (const hop of hops) {
+    if (!(hop.tokenInputs ?? []).some((t: any) => t.mint === soldMint)) continue;
+    const quoteOut = (hop.tokenOutputs ?? []).find((t: any) => isQuoteMint(t.mint));
+    if (quoteOut) return toQuote(quoteOut);
   }
-}
-
-async function getAllSourcesFallback(tokenMint: string, sources: Promise<any>[]) {
-  try {
-    const results = await Promise.race([
-      Promise.allSettled(sources),
-      new Promise<PromiseSettledResult<any>[]>((resolve) => 
-        setTimeout(() => resolve([]), 3000)
-      )
-    ]);
-
-    const successfulResults = results
-      .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
-      .map(result => result.value)
-      .filter(metadata => metadata && metadata.symbol && metadata.name);
-
-    if (successfulResults.length === 0) {
-      return generateFallback(tokenMint);
-    }
-
-    // Find the best result (prioritize those with logos)
-    const resultsWithLogos = successfulResults.filter(r => r.logo || r.logos?.length);
-    const bestResult = resultsWithLogos.length > 0 ? resultsWithLogos[0] : successfulResults[0];
-    
-    // Collect all unique logos from all successful results
-    const allLogos = collectLogosFromResults(results);
-    
-    return {
-      symbol: bestResult.symbol,
-      name: bestResult.name,
-      logo: allLogos[0] || bestResult.logo,
-      logos: allLogos.length > 0 ? allLogos : undefined,
-    };
-  } catch (error) {
-    return generateFallback(tokenMint);
+  for (const hop of hops) {
+    if (!(hop.tokenOutputs ?? []).some((t: any) => t.mint === boughtMint)) continue;
+    const quoteIn = (hop.tokenInputs ?? []).find((t: any) => isQuoteMint(t.mint));
+    if (quoteIn) return toQuote(quoteIn);
   }
+  return null;
 }
 
-function collectLogosFromResults(results: PromiseSettledResult<any>[]): string[] {
-  const logos = new Set<string>();
-  
-  results.forEach(result => {
-    if (result.status === 'fulfilled') {
-      const value = result.value;
-      if (value?.logo) logos.add(value.logo);
-      if (value?.logos) {
-        value.logos.forEach((logo: string) => {
-          if (logo && typeof logo === 'string') logos.add(logo);
-        });
-      }
-    }
-  });
-
-  return Array.from(logos).filter(logo => 
-    logo && logo.length > 5 && !logo.includes('undefined')
-  );
-}
-
-// 1. Helius Primary Source - uses server-side API proxy
-async function getHeliusMetadata(tokenMint: string) {
-  try {
-    // Use server-side API route to fetch metadata securely
-    const response = await fetch(`/api/helius/asset?mint=${encodeURIComponent(tokenMint)}`);
-
-    if (!response.ok) {
-      throw new Error(`Helius HTTP error: ${response.status}`);
-    }
-
-    const responseData = await response.json();
-    
-    if (responseData.error) {
-      throw new Error(`Helius API error: ${responseData.error.message || responseData.error}`);
-    }
-
-    const asset = responseData.result;
-    
-    if (asset) {
-      const symbol = asset.symbol || asset.content?.metadata?.symbol || tokenMint.slice(0, 6);
-      const name = asset.name || asset.content?.metadata?.name || `Token ${tokenMint.slice(0, 6)}`;
-      
-      // Helius provides multiple logo sources
-      const heliusLogos = [
-        asset.content?.links?.image, // Primary image
-        asset.image, // Legacy field
-        asset.logo, // Legacy field
-      ].filter((url): url is string => 
-        typeof url === 'string' && url.length > 5 && !url.includes('undefined')
-      );
-
-      // Add standard logo candidates
-      const allLogos = Array.from(new Set([
-        ...heliusLogos,
-        ...buildStandardLogoCandidates(tokenMint),
-      ]));
-
-      return {
-        symbol,
-        name,
-        logo: allLogos[0],
-        logos: allLogos,
-      };
+/**
+ * Net wallet deltas when there's no swap event. Token changes come from the
+ * wallet-owned balance changes in accountData, which carry raw amounts
+ * (tokenTransfers only has floats).
+ */
+function deltasFromTransfers(tx: any, walletAddress: string): WalletDeltas {
+  const tokenDeltas = new Map<string, TokenDelta>();
+
+  for (const account of tx.accountData ?? []) {
+    for (const change of account.tokenBalanceChanges ?? []) {
+      if (!change.mint || change.userAccount !== walletAddress) continue;
+      const raw = change.rawTokenAmount ?? {};
+      addTokenDelta(tokenDeltas, change.mint, parseRawAmount(raw.tokenAmount), raw.decimals ?? 0);
     }
-
-    throw new Error('Helius no asset data');
-  } catch (error) {
-    console.warn(`Helius metadata failed for ${tokenMint}:`, error instanceof Error ? error.message : error);
-    throw error;
   }
-}
 
-// 2. Jupiter Strict Token List (high quality verified tokens)
-async function getJupiterStrictMetadata(tokenMint: string) {
-  try {
-    const response = await fetch('https://token.jup.ag/strict');
-    const tokenList = await response.json();
-    
-    const token = tokenList.find((t: any) => t.address === tokenMint);
-    if (token) {
-      const logos = token.logoURI ? [token.logoURI] : [];
-      return {
-        symbol: token.symbol,
-        name: token.name,
-        logo: token.logoURI,
-        logos,
-      };
+  // Native SOL moved to/from the wallet (fees aren't native transfers). When the swap
+  // went through the wallet's WSOL account the wrap shows up natively too, so only
+  // fall back to native transfers when no WSOL moved.
+  let nativeLamports = 0n;
+  if (!tokenDeltas.get(KNOWN_TOKENS.SOL)?.raw) {
+    for (const nativeTransfer of tx.nativeTransfers ?? []) {
+      // Tips are fees, not part of the trade
+      if (isJitoTipAccount(nativeTransfer.toUserAccount)) continue;
+      const amount = parseRawAmount(nativeTransfer.amount);
+      if (nativeTransfer.toUserAccount === walletAddress) nativeLamports += amount;
+      if (nativeTransfer.fromUserAccount === walletAddress) nativeLamports -= amount;
     }
-  } catch (error) {
-    console.warn(`Jupiter strict list failed for ${tokenMint}`);
   }
-  throw new Error('Jupiter failed');
+
+  return { tokenDeltas, nativeLamports };
 }
 
-// 3. Birdeye API (fallback)
-async function getBirdeyeMetadata(tokenMint: string) {
-  try {
-    const response = await fetch(`https://public-api.birdeye.so/defi/token_overview?address=${tokenMint}`, {
-      headers: {
-        'X-API-KEY': 'your-birdeye-api-key-here', // Optional but recommended
-      },
-    });
-    
-    if (response.ok) {
-      const data = await response.json();
-      if (data.data?.symbol) {
-        const logo = data.data.logoURI || data.data.logo;
-        const logos = logo ? [logo] : [];
-        
-        return {
-          symbol: data.data.symbol,
-          name: data.data.name || data.data.symbol,
-          logo,
-          logos,
-        };
-      }
-    }
-  } catch (error) {
-    console.warn(`Birdeye metadata failed for ${tokenMint}`);
-  }
-  throw new Error('Birdeye failed');
+/**
+ * Fees the wallet paid on a Helius Enhanced transaction (none when someone else
+ * paid and no tip left the wallet)
+ */
+function feesFromEnhanced(tx: any, walletAddress: string): SwapFees | undefined {
+  const fee = tx.feePayer === walletAddress ? Number(tx.fee || 0) : 0;
+  const topLevel: ProgramInstruction[] = (tx.instructions ?? []).map((ix: any) => ({ programId: ix.programId, data: ix.data }));
+  const priority = fee > 0 ? priorityFeeLamports(topLevel, fee) : 0;
+  const tip = (tx.nativeTransfers ?? [])
+    .filter((transfer: any) => transfer.fromUserAccount === walletAddress && isJitoTipAccount(transfer.toUserAccount))
+    .reduce((sum: number, transfer: any) => sum + Number(transfer.amount || 0), 0);
+
+  if (fee === 0 && tip === 0) return undefined;
+  return { network: fee - priority, priority, tip };
 }
 
-// 4. Solana Token List (community maintained)
-async function getSolanaTokenListMetadata(tokenMint: string) {
-  try {
-    const response = await fetch('https://cdn.jsdelivr.net/gh/solana-labs/token-list@main/src/tokens/solana.tokenlist.json');
-    const tokenList = await response.json();
-    
-    const token = tokenList.tokens.find((t: any) => t.address === tokenMint);
-    if (token) {
-      return {
-        symbol: token.symbol,
-        name: token.name,
-        logo: token.logoURI,
-        logos: token.logoURI ? [token.logoURI] : [],
-      };
+/**
+ * Transfers in/out of the wallet on a Helius Enhanced transaction with no swap;
+ * counterparties come from the other owners' balance changes in accountData
+ */
+function transfersFromEnhanced(tx: any, walletAddress: string, tokenDeltas: Map<string, TokenDelta>): ParsedSwap[] {
+  const ownerDeltas = new Map<string, Map<string, bigint>>();
+  for (const account of tx.accountData ?? []) {
+    for (const change of account.tokenBalanceChanges ?? []) {
+      if (!change.mint || !change.userAccount || change.userAccount === walletAddress) continue;
+      const byOwner = ownerDeltas.get(change.mint) ?? new Map<string, bigint>();
+      byOwner.set(change.userAccount, (byOwner.get(change.userAccount) ?? 0n) + parseRawAmount(change.rawTokenAmount?.tokenAmount));
+      ownerDeltas.set(change.mint, byOwner);
     }
-  } catch (error) {
-    console.warn(`Solana token list failed for ${tokenMint}`);
   }
-  throw new Error('Solana token list failed');
-}
 
-function generateFallback(tokenMint: string) {
-  const fallbackLogos = buildStandardLogoCandidates(tokenMint);
-  return {
-    symbol: tokenMint.slice(0, 6) + '...' + tokenMint.slice(-4),
-    name: 'Unknown Token',
-    logo: fallbackLogos[0],
-    logos: fallbackLogos,
-  };
-}
+  const counterparties = new Map(Array.from(tokenDeltas.entries())
+    .map(([mint, delta]) => [mint, findCounterparty(ownerDeltas.get(mint), delta.raw)]));
 
-function buildStandardLogoCandidates(tokenMint: string): string[] {
-  return [
-    `https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/${tokenMint}/logo.png`,
-    `https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/${tokenMint}/logo.svg`,
-    `https://pump.fun/cdn/${tokenMint}/logo.png`,
-    `https://pump.fun/cdn/${tokenMint}/logo.webp`,
-  ].filter(url => url && url.length > 0);
+  return decodeTransferFields(tokenDeltas, counterparties, new Set([walletAddress])).map(fields => ({
+    signature: tx.signature,
+    timestamp: tx.timestamp * 1000,
+    tokenSymbol: '',
+    tokenName: '',
+    dex: TRANSFER_DEX,
+    ...fields,
+  }));
 }
 
 /**
- * Parse a Helius Enhanced transaction for wallet-centric token deltas
+ * Parse a Helius Enhanced transaction for wallet-centric token deltas.
+ * Returns one swap for a normal trade and two (sell + buy) for a token-to-token route;
+ * transactions that only moved tokens come back as transfers.
  */
-function parseEnhancedTransaction(tx: any, walletAddress: string): ParsedSwap | null {
+export function parseEnhancedTransaction(tx: any, walletAddress: string): ParsedSwap[] {
   if (!tx.tokenTransfers || tx.tokenTransfers.length === 0) {
-    return null;
+    return [];
   }
 
-  // Calculate net token delta for this wallet
-  const tokenDeltas = new Map<string, { delta: number; decimals: number }>();
-  
-  for (const transfer of tx.tokenTransfers) {
-    const mint = transfer.mint;
-    if (!mint) continue;
+  const swapEvent = tx.events?.swap;
+  const { tokenDeltas, nativeLamports } = swapEvent
+    ? deltasFromSwapEvent(swapEvent, walletAddress)
+    : deltasFromTransfers(tx, walletAddress);
+
+  const rotation = classifyRotation(tokenDeltas);
+  const routeQuote = rotation && swapEvent
+    ? findRouteQuote(swapEvent.innerSwaps, rotation.sold.mint, rotation.bought.mint)
+    : null;
+
+  const decoded = decodeSwapFields(tokenDeltas, nativeLamports, routeQuote);
+  if (decoded.length === 0) {
+    // LP deposits/withdrawals move tokens too; only plain movements are transfers
+    return swapEvent || touchesDexProgram(collectEnhancedInstructions(tx))
+      ? []
+      : transfersFromEnhanced(tx, walletAddress, tokenDeltas);
+  }
 
-    const amount = transfer.tokenAmount || 0;
-    const fromWallet = transfer.fromUserAccount === walletAddress;
-    const toWallet = transfer.toUserAccount === walletAddress;
+  const dex = resolveEnhancedDexLabel(tx);
+  const fees = splitFees(feesFromEnhanced(tx, walletAddress), decoded.length);
+  return decoded.map((fields, index) => ({
+    signature: tx.signature,
+    timestamp: tx.timestamp * 1000,
+    tokenSymbol: '', // Will be fetched
+    tokenName: '',
+    dex,
+    ...fields,
+    fees: fees[index],
+  }));
+}
 
-    if (!fromWallet && !toWallet) continue;
+type UsdPriceLookup = (timestamp: number) => number | null;
 
-    const delta = toWallet ? amount : -amount;
-    const current = tokenDeltas.get(mint) || { delta: 0, decimals: transfer.decimals || 6 };
-    tokenDeltas.set(mint, { 
-      delta: current.delta + delta, 
-      decimals: transfer.decimals || current.decimals 
-    });
+/**
+ * USD price of a mint over time: candles from fromMs, else today's price
+ */
+async function loadUsdPriceLookup(
+  mint: string,
+  symbol: string,
+  fromMs: number,
+  signal?: AbortSignal
+): Promise<UsdPriceLookup> {
+  const candles = await getPriceCandles(mint, fromMs, Date.now(), undefined, signal);
+
+  let fallbackPrice: number | null = null;
+  if (candles.length === 0) {
+    console.warn(`${symbol} price history unavailable, converting at current ${symbol} price`);
+    fallbackPrice = (await getTokenQuote(mint, signal)).price;
   }
 
-  // Find the traded token (non-stable with largest absolute delta)
-  let tradedToken: { mint: string; delta: number; decimals: number } | null = null;
-  let maxAbsDelta = 0;
+  return (timestamp) => priceAt(candles, timestamp) ?? fallbackPrice;
+}
 
-  for (const [mint, data] of tokenDeltas.entries()) {
-    if (mint === KNOWN_TOKENS.USDC || mint === KNOWN_TOKENS.USDT) continue;
-    if (Math.abs(data.delta) > maxAbsDelta) {
-      maxAbsDelta = Math.abs(data.delta);
-      tradedToken = { mint, ...data };
-    }
-  }
+/**
+ * Convert swaps whose value leg isn't USD-pegged (SOL, LSTs, ...) into USD using
+ * the quote asset's price at each swap's timestamp, and value the fees paid at
+ * the SOL price. The quote-unit amount stays on swap.quoteAmount (and
+ * swap.solAmount for SOL).
+ *
+ * Swaps whose quote asset has no USD price at all are left out of the result, so
+ * quote units never end up in the USD fields, and counted as unpricedSwaps.
+ */
+export async function applyQuoteUsdPrices(
+  swaps: ParsedSwap[],
+  windowStartMs?: number,
+  signal?: AbortSignal,
+  onProgress?: ProgressReporter
+): Promise<ParsedSwap[]> {
+  const pending = swaps.filter(swap => swap.quoteAmount !== undefined && swap.quoteUsdPrice === undefined);
+  const unpricedFees = swaps.filter(swap => swap.fees && swap.feeUsd === undefined);
+  if (pending.length === 0 && unpricedFees.length === 0) return swaps;
 
-  if (!tradedToken || maxAbsDelta === 0) return null;
+  const byQuote = new Map<string, ParsedSwap[]>();
+  for (const swap of pending) {
+    byQuote.set(swap.quoteMint, [...(byQuote.get(swap.quoteMint) ?? []), swap]);
+  }
 
-  const isBuy = tradedToken.delta > 0;
-  const tokenAmount = Math.abs(tradedToken.delta);
+  const lookups = new Map<string, UsdPriceLookup>();
+  const unpriced = new Set<ParsedSwap>();
+  const earliestOf = (list: ParsedSwap[]) => Math.min(...list.map(swap => swap.timestamp));
+
+  for (const [quoteMint, quoteSwaps] of byQuote.entries()) {
+    const quoteCurrency = quoteSwaps[0].quoteCurrency;
+    // Fetch the whole analysis window once so every batch shares the same candle range
+    const lookup = await loadUsdPriceLookup(quoteMint, quoteCurrency, windowStartMs ?? earliestOf(quoteSwaps), signal);
+    lookups.set(quoteMint, lookup);
+
+    for (const swap of quoteSwaps) {
+      const quoteUsdPrice = lookup(swap.timestamp);
+      if (!quoteUsdPrice) {
+        console.warn(`No ${quoteCurrency}/USD price for ${swap.signature}, dropping the swap`);
+        unpriced.add(swap);
+        continue;
+      }
 
-  // Calculate value side (prefer USDC, fallback to SOL, accept token-to-token)
-  let valueAmount = 0;
-  const usdcDelta = tokenDeltas.get(KNOWN_TOKENS.USDC);
-  const usdtDelta = tokenDeltas.get(KNOWN_TOKENS.USDT);
-  
-  if (usdcDelta && Math.abs(usdcDelta.delta) > 0) {
-    valueAmount = Math.abs(usdcDelta.delta);
-  } else if (usdtDelta && Math.abs(usdtDelta.delta) > 0) {
-    valueAmount = Math.abs(usdtDelta.delta);
-  } else if (tx.nativeTransfers && tx.nativeTransfers.length > 0) {
-    // Sum native SOL transfers to/from wallet (excluding fees)
-    let solDelta = 0;
-    for (const nativeTransfer of tx.nativeTransfers) {
-      const amount = nativeTransfer.amount || 0;
-      const fromWallet = nativeTransfer.fromUserAccount === walletAddress;
-      const toWallet = nativeTransfer.toUserAccount === walletAddress;
-      
-      if (toWallet) solDelta += amount;
-      if (fromWallet) solDelta -= amount;
-    }
-    valueAmount = Math.abs(solDelta) / 1e9; // Convert lamports to SOL
-  } else {
-    // Token-to-token swap (no clear USDC/SOL side)
-    // Look for the second largest token delta (the "value" side)
-    const sortedDeltas = Array.from(tokenDeltas.entries())
-      .filter(([mint]) => mint !== tradedToken.mint && mint !== KNOWN_TOKENS.SOL)
-      .sort(([, a], [, b]) => Math.abs(b.delta) - Math.abs(a.delta));
-    
-    if (sortedDeltas.length > 0) {
-      // Use the counter-token as value (will need price lookup later)
-      valueAmount = Math.abs(sortedDeltas[0][1].delta);
+      const valueUsd = swap.quoteAmount! * quoteUsdPrice;
+      const tokenAmount = swap.type === 'buy' ? swap.amountOut : swap.amountIn;
+      swap.quoteUsdPrice = quoteUsdPrice;
+      if (swap.type === 'buy') {
+        swap.amountIn = valueUsd;
+      } else {
+        swap.amountOut = valueUsd;
+      }
+      swap.pricePerToken = tokenAmount > 0 ? valueUsd / tokenAmount : 0;
     }
   }
 
-  // Accept ALL trades, even with no clear value (we'll price them later)
-  const pricePerToken = (tokenAmount > 0 && valueAmount > 0) ? valueAmount / tokenAmount : 0;
-
-  // Determine DEX from events
-  let dexName = 'Unknown';
-  if (tx.events?.swap) {
-    dexName = tx.events.swap?.protocol || tx.events.swap?.nativeInput?.account || 'DEX';
+  if (unpricedFees.length > 0) {
+    const solLookup = lookups.get(KNOWN_TOKENS.SOL)
+      ?? await loadUsdPriceLookup(KNOWN_TOKENS.SOL, 'SOL', windowStartMs ?? earliestOf(unpricedFees), signal);
+    for (const swap of unpricedFees) {
+      const solUsdPrice = solLookup(swap.timestamp);
+      if (solUsdPrice) {
+        swap.feeUsd = (totalFeeLamports(swap.fees!) / 1e9) * solUsdPrice;
+      }
+    }
   }
 
-  return {
-    signature: tx.signature,
-    timestamp: tx.timestamp * 1000,
-    tokenMint: tradedToken.mint,
-    tokenSymbol: '', // Will be fetched
-    tokenName: '',
-    type: isBuy ? 'buy' : 'sell',
-    amountIn: isBuy ? valueAmount : tokenAmount,
-    amountOut: isBuy ? tokenAmount : valueAmount,
-    pricePerToken,
-    dex: dexName,
-  };
+  if (unpriced.size === 0) return swaps;
+  onProgress?.({ add: { unpricedSwaps: unpriced.size } });
+  return swaps.filter(swap => !unpriced.has(swap));
 }
 
 /**
  * Parse DEX swaps from transactions (fallback RPC method)
  */
 export async function parseSwapTransactions(
+  walletAddress: string,
   transactions: Transaction[],
   daysBack?: number,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressReporter,
+  signal?: AbortSignal
 ): Promise<ParsedSwap[]> {
   // Enhanced API is called directly from analyzePaperhands now
   // This is just the fallback RPC parser
@@ -631,13 +565,14 @@ export async function parseSwapTransactions(
   // Process in parallel batches of 10 for better performance
   const batchSize = 10;
   for (let i = 0; i < total; i += batchSize) {
+    signal?.throwIfAborted();
     const batch = transactions.slice(i, Math.min(i + batchSize, total));
-    const progress = 10 + Math.floor(((i + batch.length) / total) * 80); // 10% to 90%
     
-    onProgress?.(
-      `Analyzing ${i + batch.length}/${total} transactions${timeRangeText}...`,
-      progress
-    );
+    onProgress?.({
+      phase: 'parsing',
+      message: `Analyzing ${i + batch.length}/${total} transactions${timeRangeText}...`,
+      fraction: RPC_SIGNATURES_SHARE + (1 - RPC_SIGNATURES_SHARE) * (i / total),
+    });
 
     try {
       // Process batch in parallel
@@ -651,36 +586,41 @@ export async function parseSwapTransactions(
               maxRetries: 5,
               baseDelay: 1200,
               onProgress,
+              signal,
             }
           );
 
           if (parsedTx && parsedTx.meta && !parsedTx.meta.err) {
-            return await parseTransaction(parsedTx, tx);
+            return await parseTransaction(parsedTx, tx, walletAddress, signal);
           }
-          return null;
+          return [];
         } catch (error: any) {
-          return null;
+          if (isAbortError(error)) throw error;
+          return [];
         }
       });
 
       const batchResults = await Promise.all(batchPromises);
-      const validSwaps = batchResults.filter((swap): swap is ParsedSwap => swap !== null);
+      const validSwaps = batchResults.flat();
       
       if (validSwaps.length > 0) {
         swaps.push(...validSwaps);
       }
-      
-      // Reduced delay with 50 req/sec plan
-      if (i + batchSize < total) {
-        await sleep(50);
-      }
     } catch (error: any) {
+      if (isAbortError(error)) throw error;
       console.error(`Error processing batch:`, error?.message || error);
     }
+
+    onProgress?.({
+      add: { transactionsParsed: batch.length },
+      fraction: RPC_SIGNATURES_SHARE + (1 - RPC_SIGNATURES_SHARE) * ((i + batch.length) / total),
+    });
   }
 
   console.log(`Found ${swaps.length} coin trades${timeRangeText} (${total} transactions analyzed)`);
-  return swaps;
+  const windowStartMs = daysBack ? Date.now() - daysBack * 24 * 60 * 60 * 1000 : undefined;
+  onProgress?.({ phase: 'enriching', message: `Converting ${swaps.length} trades to USD...` });
+  return applyQuoteUsdPrices(swaps, windowStartMs, signal, onProgress);
 }
 
 /**
@@ -689,30 +629,43 @@ export async function parseSwapTransactions(
 export type SwapBatchCallback = (swaps: ParsedSwap[], isComplete: boolean) => void;
 
 /**
- * Main entry point: Parse swaps incrementally, calling onBatch as batches complete
- * Returns a controller to check current state and stop early
+ * Everything a history fetch produced
+ */
+export interface SwapHistory {
+  swaps: ParsedSwap[];
+  /**
+   * False when paging stopped early (rate limits, server errors), so swaps older than
+   * the oldest one returned may be missing
+   */
+  complete: boolean;
+}
+
+/**
+ * Main entry point: Parse swaps incrementally, calling onBatch as batches complete.
+ * Stops early (complete: false) when Helius keeps failing rather than rejecting,
+ * so the pages already parsed still count.
  */
 export async function parseSwapsIncrementally(
   walletAddress: string,
   daysBack?: number,
-  onProgress?: ProgressCallback,
-  onBatch?: SwapBatchCallback
-): Promise<ParsedSwap[]> {
+  onProgress?: ProgressReporter,
+  onBatch?: SwapBatchCallback,
+  pageSize: number = HELIUS_DEFAULT_PAGE_SIZE,
+  until?: string,
+  signal?: AbortSignal
+): Promise<SwapHistory> {
   const timeRangeText = daysBack ? ` (last ${daysBack} days)` : '';
 
   // Track all swaps for final merge
   const allSwaps: ParsedSwap[] = [];
-  const metadataCache = new Map<string, Awaited<ReturnType<typeof getTokenMetadata>>>();
+  const metadataCache = new Map<string, TokenMetadata>();
   
-  // Helper to enrich swaps with metadata
+  // Helper to enrich swaps with metadata, one batch lookup per page
   const enrichSwaps = async (swaps: ParsedSwap[]) => {
     const uniqueMints = Array.from(new Set(swaps.map(s => s.tokenMint).filter(m => !metadataCache.has(m))));
     if (uniqueMints.length > 0) {
-      const metaEntries = await Promise.all(uniqueMints.map(async (mint) => {
-        const meta = await getTokenMetadata(mint);
-        return [mint, meta] as const;
-      }));
-      for (const [mint, meta] of metaEntries) {
+      const fetched = await getTokenMetadataBatch(uniqueMints, signal);
+      for (const [mint, meta] of fetched) {
         metadataCache.set(mint, meta);
       }
     }
@@ -733,6 +686,11 @@ export async function parseSwapsIncrementally(
           swap.tokenLogos = [m.logo];
         }
       }
+      // Rotation legs are quoted in the other token; show its symbol
+      const quoteMeta = isQuoteMint(swap.quoteMint) ? undefined : metadataCache.get(swap.quoteMint);
+      if (quoteMeta) {
+        swap.quoteCurrency = quoteMeta.symbol;
+      }
     }
     return swaps;
   };
@@ -744,9 +702,11 @@ export async function parseSwapsIncrementally(
 
   let before: string | undefined = undefined;
   let batchCount = 0;
-  let pageLimit = HELIUS_DEFAULT_PAGE_SIZE;
+  let pageLimit = pageSize;
   let retryCurrentBatch = false;
   let repeated400Errors = 0;
+  // Cleared when pagination stops before the end of the window
+  let complete = true;
 
   console.log(`Using Helius Enhanced API for incremental trade parsing${timeRangeText}...`);
 
@@ -757,20 +717,12 @@ export async function parseSwapsIncrementally(
     retryCurrentBatch = false;
     
     try {
-      const url = new URL('/api/helius/transactions', window.location.origin);
-      url.searchParams.set('wallet', walletAddress);
-      url.searchParams.set('limit', pageLimit.toString());
-      if (before) {
-        url.searchParams.set('before', before);
-      }
-      
-      const response = await fetch(url.toString());
-      
-      if (!response.ok) {
-        throw new HeliusApiError(response.status, `HTTP error ${response.status}`);
-      }
-      
-      const txResponse = await response.json() as any[];
+      const txResponse = await fetchEnhancedTransactionsPage(walletAddress, {
+        limit: pageLimit,
+        before,
+        until,
+        signal,
+      });
 
       if (!txResponse || txResponse.length === 0) {
         break;
@@ -780,6 +732,7 @@ export async function parseSwapsIncrementally(
       repeated400Errors = 0;
 
       let reachedCutoff = false;
+      let inWindow = 0;
       const batchSwaps: ParsedSwap[] = [];
       
       for (const tx of txResponse) {
@@ -791,18 +744,29 @@ export async function parseSwapsIncrementally(
           break;
         }
 
+        inWindow++;
         if (tx.transactionError) continue;
         if (!tx.tokenTransfers || tx.tokenTransfers.length === 0) continue;
 
-        const swap = parseEnhancedTransaction(tx, walletAddress);
-        if (swap) {
-          batchSwaps.push(swap);
-        }
+        batchSwaps.push(...parseEnhancedTransaction(tx, walletAddress));
       }
 
+      onProgress?.({
+        phase: 'parsing',
+        message: `Parsing trades${timeRangeText}... (page ${batchCount})`,
+        add: { pages: 1, transactions: inWindow },
+        fraction: reachedCutoff ? 1 : windowFraction(txResponse[txResponse.length - 1]?.timestamp || 0, cutoffTime),
+      });
+
       // Enrich and emit batch immediately
       if (batchSwaps.length > 0) {
-        const enrichedSwaps = await enrichSwaps(batchSwaps);
+        onProgress?.({ phase: 'enriching', message: `Loading token details for ${batchSwaps.length} trades...` });
+        const enrichedSwaps = await applyQuoteUsdPrices(
+          await enrichSwaps(batchSwaps),
+          cutoffTime > 0 ? cutoffTime * 1000 : undefined,
+          signal,
+          onProgress
+        );
         allSwaps.push(...enrichedSwaps);
         
         // Call the batch callback with incremental data
@@ -822,13 +786,13 @@ export async function parseSwapsIncrementally(
 
       if (txResponse.length < pageLimit || reachedCutoff) break;
       
-      onProgress?.(
-        `Parsing trades${timeRangeText}... (${allSwaps.length} found)`,
-        10 + Math.min(batchCount * 5, 70)
-      );
-
-      await sleep(50);
+      onProgress?.({
+        phase: 'fetching',
+        message: `Fetching more history${timeRangeText}... (${allSwaps.length} trades so far)`,
+      });
     } catch (error: any) {
+      // Cancelled: stop without signalling completion, the caller is no longer listening
+      if (isAbortError(error)) throw error;
       if (error instanceof HeliusApiError) {
         console.error(
           `Helius error on batch ${batchCount} (status ${error.status}):`,
@@ -844,37 +808,39 @@ export async function parseSwapsIncrementally(
               console.warn(`Reducing Helius page size from ${pageLimit} to ${newLimit} due to 400 error`);
               pageLimit = newLimit;
               retryCurrentBatch = true;
-              await sleep(100);
+              await sleep(100, signal);
               continue;
             }
           }
 
           if (repeated400Errors >= 2) {
             console.warn('Stopping Enhanced pagination after repeated 400 errors');
-            break;
           }
         } else if (error.status === 401 || error.status === 403) {
           throw new Error('Helius API key was rejected. Please verify your API key and try again.');
         } else if (error.status === 404) {
-          break;
-        } else {
+          // No (more) history for this address
           break;
         }
       } else {
         console.error(`Unexpected error fetching Enhanced batch ${batchCount}:`, error?.message || error);
       }
+      complete = false;
       break;
     }
   }
 
   console.log(`Found ${allSwaps.length} trades via incremental Helius Enhanced API${timeRangeText}`);
+  if (!complete) {
+    console.warn(`Helius history for ${walletAddress} stopped early after ${batchCount} batches`);
+  }
   
-  // Signal completion
+  // Signal that no more batches follow
   if (onBatch) {
     onBatch([], true);
   }
   
-  return allSwaps;
+  return { swaps: allSwaps, complete };
 }
 
 /**
@@ -883,105 +849,147 @@ export async function parseSwapsIncrementally(
 export async function parseSwapsWithEnhancedAPI(
   walletAddress: string,
   daysBack?: number,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressReporter
 ): Promise<ParsedSwap[]> {
-  return parseSwapsIncrementally(walletAddress, daysBack, onProgress);
+  const { swaps } = await parseSwapsIncrementally(walletAddress, daysBack, onProgress);
+  return swaps;
 }
 
 /**
- * Parse a single transaction to identify swaps
+ * Flatten top-level and inner instructions into execution order
  */
-async function parseTransaction(
-  tx: ParsedTransactionWithMeta,
-  originalTx: Transaction
-): Promise<ParsedSwap | null> {
-  if (!tx.transaction || !tx.meta) return null;
-
-  // Check if transaction involves a known DEX
-  const programIds = tx.transaction.message.instructions
-    .map((ix: any) => ix.programId?.toString())
-    .filter(Boolean);
-
-  const dexPrograms = Object.values(DEX_PROGRAMS);
-  const involvedDex = programIds.find(id => dexPrograms.includes(id));
-  
-  if (!involvedDex) return null;
-
-  // Analyze token balance changes
-  const preBalances = tx.meta.preTokenBalances || [];
-  const postBalances = tx.meta.postTokenBalances || [];
-
-  // Find token changes (excluding SOL/WSOL)
-  const tokenChanges = new Map<string, number>();
-
-  for (const pre of preBalances) {
-    if (!pre.mint) continue;
-    const post = postBalances.find(p => p.accountIndex === pre.accountIndex);
-    if (!post) continue;
+function collectProgramInstructions(tx: ParsedTransactionWithMeta): ProgramInstruction[] {
+  const innerByIndex = new Map<number, any[]>();
+  for (const inner of tx.meta?.innerInstructions ?? []) {
+    innerByIndex.set(inner.index, inner.instructions);
+  }
 
-    const preAmount = Number(pre.uiTokenAmount.uiAmount);
-    const postAmount = Number(post.uiTokenAmount.uiAmount);
-    const change = postAmount - preAmount;
+  const instructions: ProgramInstruction[] = [];
+  tx.transaction.message.instructions.forEach((ix: any, index) => {
+    instructions.push({ programId: ix.programId?.toString(), data: ix.data });
+    for (const inner of innerByIndex.get(index) ?? []) {
+      instructions.push({ programId: inner.programId?.toString(), data: inner.data });
+    }
+  });
+  return instructions;
+}
 
-    if (Math.abs(change) > 0.000001) { // Ignore dust
-      tokenChanges.set(pre.mint, change);
+/**
+ * Fees the wallet paid on an RPC transaction: the fee when it's the fee payer,
+ * plus system transfers from it to a Jito tip account (top-level or inner)
+ */
+function feesFromParsedTransaction(
+  tx: ParsedTransactionWithMeta,
+  walletAddress: string,
+  isFeePayer: boolean
+): SwapFees | undefined {
+  const fee = isFeePayer ? tx.meta?.fee ?? 0 : 0;
+  const topLevel: ProgramInstruction[] = tx.transaction.message.instructions
+    .map((ix: any) => ({ programId: ix.programId?.toString(), data: ix.data }));
+  const priority = fee > 0 ? priorityFeeLamports(topLevel, fee) : 0;
+
+  let tip = 0;
+  const instructions: any[] = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions),
+  ];
+  for (const ix of instructions) {
+    const info = ix.parsed?.type === 'transfer' ? ix.parsed.info : null;
+    if (info && info.source === walletAddress && isJitoTipAccount(info.destination)) {
+      tip += Number(info.lamports || 0);
     }
   }
 
-  // Look for new token accounts (buys)
-  for (const post of postBalances) {
-    if (!post.mint) continue;
-    const pre = preBalances.find(p => p.accountIndex === post.accountIndex);
-    if (!pre && post.uiTokenAmount.uiAmount) {
-      const amount = Number(post.uiTokenAmount.uiAmount);
-      if (amount > 0) {
-        tokenChanges.set(post.mint, amount);
+  if (fee === 0 && tip === 0) return undefined;
+  return { network: fee - priority, priority, tip };
+}
+
+/**
+ * Parse a single transaction to identify swaps (two for a token-to-token rotation),
+ * or the transfers of one that moved tokens without any DEX involved.
+ * Only balances owned by the wallet count, so pool vault movements are ignored.
+ * Like parseEnhancedTransaction, the balance changes decide whether it was a trade:
+ * a swap through a program missing from the DEX registry is still a swap.
+ */
+async function parseTransaction(
+  tx: ParsedTransactionWithMeta,
+  originalTx: Transaction,
+  walletAddress: string,
+  signal?: AbortSignal
+): Promise<ParsedSwap[]> {
+  if (!tx.transaction || !tx.meta) return [];
+
+  const instructions = collectProgramInstructions(tx);
+
+  // Net token change per mint across the wallet's token accounts
+  // (accounts opened or closed in this transaction only appear on one side),
+  // and per other owner for transfer counterparties
+  const tokenChanges = new Map<string, TokenDelta>();
+  const ownerChanges = new Map<string, Map<string, bigint>>();
+  const addBalances = (balances: typeof tx.meta.preTokenBalances, sign: 1n | -1n) => {
+    for (const balance of balances ?? []) {
+      if (!balance.mint || !balance.owner) continue;
+      const { amount, decimals } = balance.uiTokenAmount;
+      const raw = sign * parseRawAmount(amount);
+      if (balance.owner === walletAddress) {
+        addTokenDelta(tokenChanges, balance.mint, raw, decimals);
+      } else {
+        const byOwner = ownerChanges.get(balance.mint) ?? new Map<string, bigint>();
+        byOwner.set(balance.owner, (byOwner.get(balance.owner) ?? 0n) + raw);
+        ownerChanges.set(balance.mint, byOwner);
       }
     }
+  };
+  addBalances(tx.meta.postTokenBalances, 1n);
+  addBalances(tx.meta.preTokenBalances, -1n);
+
+  // Native SOL: lamport change, with the fee and tips added back when the wallet paid them
+  const accountKeys = tx.transaction.message.accountKeys.map((key: any) => (key.pubkey ?? key).toString());
+  const walletIndex = accountKeys.indexOf(walletAddress);
+  const fees = feesFromParsedTransaction(tx, walletAddress, walletIndex === 0);
+  const lamportChange = walletIndex >= 0
+    ? BigInt(tx.meta.postBalances[walletIndex] - tx.meta.preBalances[walletIndex] + (fees ? totalFeeLamports(fees) : 0))
+    : 0n;
+
+  const decoded = decodeSwapFields(tokenChanges, lamportChange);
+  if (decoded.length === 0) {
+    // LP deposits/withdrawals move tokens too; only plain movements are transfers
+    if (touchesDexProgram(instructions)) return [];
+
+    const counterparties = new Map(Array.from(tokenChanges.entries())
+      .map(([mint, delta]) => [mint, findCounterparty(ownerChanges.get(mint), delta.raw)]));
+    const transfers: ParsedSwap[] = [];
+    for (const fields of decodeTransferFields(tokenChanges, counterparties, new Set([walletAddress]))) {
+      const metadata = await getTokenMetadata(fields.tokenMint, signal);
+      transfers.push({
+        signature: originalTx.signature,
+        timestamp: originalTx.blockTime * 1000,
+        tokenSymbol: metadata.symbol,
+        tokenName: metadata.name,
+        dex: TRANSFER_DEX,
+        ...fields,
+      });
+    }
+    return transfers;
   }
 
-  // Filter out SOL/WSOL and stablecoins to find the traded token
-  const tradedToken = Array.from(tokenChanges.entries()).find(([mint, change]) => 
-    mint !== KNOWN_TOKENS.SOL && 
-    mint !== KNOWN_TOKENS.USDC && 
-    mint !== KNOWN_TOKENS.USDT &&
-    Math.abs(change) > 0
-  );
-
-  if (!tradedToken) return null;
-
-  const [tokenMint, tokenChange] = tradedToken;
-  const isBuy = tokenChange > 0;
-
-  // Get SOL/USDC change for price calculation
-  const solChange = Math.abs(tx.meta.preBalances[0] - tx.meta.postBalances[0]) / 1e9;
-  const usdcChange = tokenChanges.get(KNOWN_TOKENS.USDC) || 0;
-  
-  const valueChange = Math.abs(usdcChange) || solChange;
-  
-  // Only count coin buys/sells (must involve SOL or USDC)
-  if (valueChange < 0.001) return null; // No SOL/USDC moved = not a coin trade
-  
-  const tokenAmount = Math.abs(tokenChange);
-  const pricePerToken = tokenAmount > 0 ? valueChange / tokenAmount : 0;
-
-  // Fetch token metadata
-  const metadata = await getTokenMetadata(tokenMint);
-
-  const dexName = Object.entries(DEX_PROGRAMS).find(([_, id]) => id === involvedDex)?.[0] || 'Unknown DEX';
-
-  return {
-    signature: originalTx.signature,
-    timestamp: originalTx.blockTime * 1000,
-    tokenMint,
-    tokenSymbol: metadata.symbol,
-    tokenName: metadata.name,
-    type: isBuy ? 'buy' : 'sell',
-    amountIn: isBuy ? valueChange : tokenAmount,
-    amountOut: isBuy ? tokenAmount : valueChange,
-    pricePerToken,
-    dex: dexName,
-  };
+  const dex = findSwapInstruction(instructions)?.program.label ?? UNKNOWN_DEX;
+  const feeShares = splitFees(fees, decoded.length);
+  const swaps: ParsedSwap[] = [];
+  for (const [index, fields] of decoded.entries()) {
+    // Fetch token metadata
+    const metadata = await getTokenMetadata(fields.tokenMint, signal);
+    swaps.push({
+      signature: originalTx.signature,
+      timestamp: originalTx.blockTime * 1000,
+      tokenSymbol: metadata.symbol,
+      tokenName: metadata.name,
+      dex,
+      ...fields,
+      fees: feeShares[index],
+    });
+  }
+  return swaps;
 }
 
 /**
@@ -1008,55 +1016,3 @@ export async function getTokenBalance(
   }
 }
 
-/**
- * Fetch current token price from Jupiter
- */
-export async function fetchCurrentTokenPrice(tokenMint: string): Promise<number> {
-  // DexScreener only (more reliable for current price + market cap)
-  try {
-    const response = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${tokenMint}`);
-    if (response.ok) {
-      const data = await response.json();
-      const priceUsd = data?.pairs?.[0]?.priceUsd;
-      const parsed = priceUsd ? parseFloat(priceUsd) : 0;
-      if (Number.isFinite(parsed) && parsed > 0) return parsed;
-    }
-  } catch (error) {
-    console.warn('DexScreener price fetch failed for', tokenMint);
-  }
-
-  return 0;
-}
-
-/**
- * Fetch token market cap from DexScreener
- */
-export async function fetchTokenMarketCap(tokenMint: string): Promise<number> {
-  try {
-    const response = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${tokenMint}`);
-    if (response.ok) {
-      const data = await response.json();
-      const pairs = Array.isArray(data?.pairs) ? data.pairs : [];
-      if (pairs.length === 0) return 0;
-      // Prefer highest liquidity pair and take fdv or marketCap
-      const best = pairs.reduce((prev: any, cur: any) => {
-        const prevLiq = Number(prev?.liquidity?.usd || 0);
-        const curLiq = Number(cur?.liquidity?.usd || 0);
-        return curLiq > prevLiq ? cur : prev;
-      }, pairs[0]);
-      const cap = Number(best?.fdv || best?.marketCap || 0);
-      return Number.isFinite(cap) ? cap : 0;
-    }
-  } catch (error) {
-    console.warn('Market cap fetch failed for', tokenMint);
-  }
-  return 0;
-}
-
-/**
- * Get current price only (no fake estimates)
- * Returns 0 if token price unavailable
- */
-export async function getCurrentPriceOnly(tokenMint: string): Promise<number> {
-  return fetchCurrentTokenPrice(tokenMint);
-}
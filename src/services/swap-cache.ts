@@ -0,0 +1,197 @@
+/**
+ * Persistent Swap Cache
+ *
+ * Keeps parsed swaps per wallet in wallet_swaps (keyed by signature and mint, as a
+ * rotation yields two swaps per transaction) plus how far back they are complete in
+ * wallet_swap_sync. When a rescan's window is already covered, the wrapped source
+ * only pages until the newest stored signature and the result is merged with the
+ * stored history; otherwise the window is fetched in full and becomes the new coverage.
+ * A fetch that stopped early only ever covers the swaps it actually returned.
+ *
+ * Raw bigint amounts are stored as decimal strings. Coverage records the stored
+ * shape (SWAP_CACHE_VERSION), so bumping it makes every wallet refetch once.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { getServiceSupabaseClient } from '@/integrations/supabase/runtime';
+import { ParsedSwap } from './solana';
+import { TransactionSource } from './transaction-sources';
+
+type Client = SupabaseClient<Database>;
+
+// PostgREST returns at most 1000 rows per request
+const READ_PAGE_SIZE = 1000;
+const WRITE_CHUNK_SIZE = 500;
+
+// Bump whenever the stored swap JSON changes shape (2: raw token amounts, 3: fees, 4: transfers)
+const SWAP_CACHE_VERSION = 4;
+
+type StoredSwap = Omit<ParsedSwap, 'tokenAmountRaw'> & { tokenAmountRaw: string };
+
+function serializeSwap(swap: ParsedSwap): StoredSwap {
+  return { ...swap, tokenAmountRaw: swap.tokenAmountRaw.toString() };
+}
+
+function deserializeSwap(stored: StoredSwap): ParsedSwap {
+  return { ...stored, tokenAmountRaw: BigInt(stored.tokenAmountRaw) };
+}
+
+async function readCoveredFrom(supabase: Client, walletAddress: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('wallet_swap_sync')
+    .select('covered_from, swap_version')
+    .eq('wallet_address', walletAddress)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Failed to read swap cache coverage:', error.message);
+    return null;
+  }
+  // Swaps stored in an older shape are refetched (and overwritten) in full
+  if (!data || data.swap_version !== SWAP_CACHE_VERSION) return null;
+  return new Date(data.covered_from).getTime();
+}
+
+/**
+ * Stored swaps at or after fromMs, newest first
+ */
+async function readStoredSwaps(supabase: Client, walletAddress: string, fromMs: number): Promise<ParsedSwap[]> {
+  const swaps: ParsedSwap[] = [];
+
+  for (let offset = 0; ; offset += READ_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('wallet_swaps')
+      .select('swap')
+      .eq('wallet_address', walletAddress)
+      .gte('block_time', new Date(fromMs).toISOString())
+      .order('block_time', { ascending: false })
+      .range(offset, offset + READ_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read stored swaps: ${error.message}`);
+    }
+
+    const rows = data ?? [];
+    for (const row of rows) {
+      swaps.push(deserializeSwap(row.swap as unknown as StoredSwap));
+    }
+    if (rows.length < READ_PAGE_SIZE) break;
+  }
+
+  return swaps;
+}
+
+async function storeSwaps(supabase: Client, walletAddress: string, swaps: ParsedSwap[]): Promise<boolean> {
+  for (let i = 0; i < swaps.length; i += WRITE_CHUNK_SIZE) {
+    const chunk = swaps.slice(i, i + WRITE_CHUNK_SIZE);
+    const { error } = await supabase
+      .from('wallet_swaps')
+      .upsert(chunk.map(swap => ({
+        wallet_address: walletAddress,
+        signature: swap.signature,
+        block_time: new Date(swap.timestamp).toISOString(),
+        token_mint: swap.tokenMint,
+        swap_type: swap.type,
+        swap: JSON.parse(JSON.stringify(serializeSwap(swap))),
+      })), {
+        onConflict: 'wallet_address,signature,token_mint',
+      });
+
+    if (error) {
+      console.warn('Failed to store swaps:', error.message);
+      return false;
+    }
+  }
+  return true;
+}
+
+async function writeCoveredFrom(supabase: Client, walletAddress: string, coveredFromMs: number): Promise<void> {
+  const { error } = await supabase
+    .from('wallet_swap_sync')
+    .upsert({
+      wallet_address: walletAddress,
+      covered_from: new Date(coveredFromMs).toISOString(),
+      swap_version: SWAP_CACHE_VERSION,
+      synced_at: new Date().toISOString(),
+    }, {
+      onConflict: 'wallet_address',
+    });
+
+  if (error) {
+    console.warn('Failed to update swap cache coverage:', error.message);
+  }
+}
+
+/**
+ * Wrap a source with the persistent swap cache (no-op in the browser and when the
+ * service-role key isn't configured, as only the server may write stored swaps)
+ */
+export function withSwapCache(source: TransactionSource): TransactionSource {
+  return {
+    name: `${source.name}+cache`,
+    fetchSwaps: async (walletAddress, params) => {
+      const supabase = await getServiceSupabaseClient();
+      if (!supabase) return source.fetchSwaps(walletAddress, params);
+
+      const cutoffMs = params.daysBack
+        ? Date.now() - params.daysBack * 24 * 60 * 60 * 1000
+        : 0;
+
+      const coveredFrom = await readCoveredFrom(supabase, walletAddress);
+      let stored: ParsedSwap[] = [];
+      let resumable = coveredFrom !== null && coveredFrom <= cutoffMs;
+
+      if (resumable) {
+        try {
+          stored = await readStoredSwaps(supabase, walletAddress, cutoffMs);
+        } catch (error) {
+          console.warn((error as Error).message, '- fetching the full window instead');
+          resumable = false;
+        }
+      }
+
+      const storedSignatures = new Set(stored.map(swap => swap.signature));
+      if (stored.length > 0) {
+        params.onProgress?.({ phase: 'fetching', message: `Loaded ${stored.length} stored trades, checking for new ones...` });
+        params.onBatch?.(stored, false);
+      }
+
+      const { swaps: fetched, complete } = await source.fetchSwaps(walletAddress, {
+        ...params,
+        // Stored history is complete from coveredFrom, so only page back to its newest swap
+        untilSignature: resumable ? stored[0]?.signature : undefined,
+        onBatch: (swaps, isComplete) => {
+          // Completion is signalled once the merge is stored
+          if (isComplete) return;
+          const fresh = swaps.filter(swap => !storedSignatures.has(swap.signature));
+          if (fresh.length > 0) params.onBatch?.(fresh, false);
+        },
+      });
+
+      const fresh = fetched.filter(swap => !storedSignatures.has(swap.signature));
+      console.log(`Swap cache for ${walletAddress}: ${stored.length} stored, ${fresh.length} new${complete ? '' : ' (incomplete)'}`);
+
+      if (complete) {
+        // Only extend coverage once every fetched swap is safely stored
+        if (await storeSwaps(supabase, walletAddress, fresh)) {
+          await writeCoveredFrom(supabase, walletAddress, resumable ? coveredFrom! : cutoffMs);
+        }
+      } else if (resumable) {
+        // There is a gap between the new swaps and the stored ones; storing them would make
+        // the next rescan stop at the newest and never fetch the gap
+        console.warn(`Not storing ${fresh.length} swaps for ${walletAddress}: history stopped before the stored swaps`);
+      } else if (fresh.length > 0) {
+        // Complete from now back to the oldest swap fetched. Its second may have been cut
+        // off mid-page, so coverage starts just after it.
+        const oldest = fresh.reduce((min, swap) => Math.min(min, swap.timestamp), Infinity);
+        if (await storeSwaps(supabase, walletAddress, fresh)) {
+          await writeCoveredFrom(supabase, walletAddress, oldest + 1000);
+        }
+      }
+
+      params.onBatch?.([], true);
+      return { swaps: [...fresh, ...stored], complete };
+    },
+  };
+}
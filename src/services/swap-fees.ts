@@ -0,0 +1,88 @@
+/**
+ * Swap Fee Extraction
+ *
+ * What the wallet paid to get a swap landed, in lamports: the network fee (base
+ * signature fee), the compute-budget priority fee and any Jito tip. Only counted
+ * when the wallet is the fee payer / tip sender. Shared by the Enhanced and the
+ * RPC parsers.
+ */
+
+import bs58 from 'bs58';
+import { COMPUTE_BUDGET_PROGRAM, JITO_TIP_ACCOUNTS } from '@/config/api';
+import type { ProgramInstruction } from './dex-registry';
+
+export interface SwapFees {
+  /** Base signature fee (lamports) */
+  network: number;
+  /** Compute unit price x limit (lamports) */
+  priority: number;
+  /** Jito bundle tip (lamports) */
+  tip: number;
+}
+
+const JITO_TIP_ACCOUNT_SET = new Set(JITO_TIP_ACCOUNTS);
+
+// Compute budget instruction tags
+const SET_COMPUTE_UNIT_LIMIT = 2;
+const SET_COMPUTE_UNIT_PRICE = 3;
+// Limit the runtime assumes per instruction when none is requested
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+export function isJitoTipAccount(account: string | undefined): boolean {
+  return !!account && JITO_TIP_ACCOUNT_SET.has(account);
+}
+
+export function totalFeeLamports(fees: SwapFees): number {
+  return fees.network + fees.priority + fees.tip;
+}
+
+/**
+ * Priority fee from the compute budget instructions (top-level only), capped at
+ * the fee actually charged
+ */
+export function priorityFeeLamports(topLevel: ProgramInstruction[], fee: number): number {
+  let unitPrice = 0n; // micro-lamports per compute unit
+  let unitLimit: number | null = null;
+
+  for (const instruction of topLevel) {
+    if (instruction.programId !== COMPUTE_BUDGET_PROGRAM || !instruction.data) continue;
+    try {
+      const data = bs58.decode(instruction.data);
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      if (data[0] === SET_COMPUTE_UNIT_LIMIT && data.length >= 5) {
+        unitLimit = view.getUint32(1, true);
+      } else if (data[0] === SET_COMPUTE_UNIT_PRICE && data.length >= 9) {
+        unitPrice = view.getBigUint64(1, true);
+      }
+    } catch {
+      // Not base58; ignore
+    }
+  }
+  if (unitPrice === 0n) return 0;
+
+  const budgetInstructions = topLevel.filter(ix => ix.programId === COMPUTE_BUDGET_PROGRAM).length;
+  const limit = unitLimit ?? Math.min(
+    (topLevel.length - budgetInstructions) * DEFAULT_UNITS_PER_INSTRUCTION,
+    MAX_COMPUTE_UNITS
+  );
+  // Rounded up, like the runtime does
+  const priority = Number((unitPrice * BigInt(limit) + 999_999n) / 1_000_000n);
+  return Math.max(0, Math.min(priority, fee));
+}
+
+/**
+ * Split a transaction's fees across the swaps it produced (a rotation yields two);
+ * the first swap takes any odd lamports
+ */
+export function splitFees(fees: SwapFees | undefined, parts: number): Array<SwapFees | undefined> {
+  if (!fees || parts <= 1) return Array.from({ length: parts }, () => fees);
+
+  const share = (value: number, index: number) =>
+    Math.floor(value / parts) + (index === 0 ? value % parts : 0);
+  return Array.from({ length: parts }, (_, index) => ({
+    network: share(fees.network, index),
+    priority: share(fees.priority, index),
+    tip: share(fees.tip, index),
+  }));
+}
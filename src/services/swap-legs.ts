@@ -0,0 +1,200 @@
+/**
+ * Swap Leg Classification
+ *
+ * Turns a wallet's net balance changes in one transaction into swaps, each with
+ * one base leg (the traded token) and one quote leg (what it was paid for with:
+ * SOL/WSOL, a stablecoin or another configured quote asset). A token-to-token
+ * rotation becomes a sell of one token and a buy of the other. Shared by the
+ * Enhanced and the RPC parsers so both pick the same sides.
+ *
+ * Deltas are kept in raw base units (bigint) so amounts stay exact; UI amounts
+ * are derived only for ranking, dust checks and display.
+ */
+
+import { KNOWN_TOKENS, QUOTE_ASSETS, QuoteAsset } from '@/config/api';
+
+/**
+ * Signed change from the wallet's point of view, in raw base units
+ */
+export interface TokenDelta {
+  raw: bigint;
+  decimals: number;
+}
+
+export interface SwapLeg extends TokenDelta {
+  mint: string;
+}
+
+export interface SwapLegs {
+  base: SwapLeg;
+  quote: SwapLeg & { asset: QuoteAsset };
+}
+
+export interface RotationLegs {
+  sold: SwapLeg;
+  bought: SwapLeg;
+}
+
+/**
+ * Quote asset amount passed between the hops of a multi-hop route (e.g. A -> SOL -> B)
+ */
+export type RouteQuote = SwapLeg;
+
+const QUOTE_ASSET_BY_MINT = new Map(QUOTE_ASSETS.map(asset => [asset.mint, asset]));
+
+const SOL_DECIMALS = 9;
+const QUOTE_DUST = 1e-6;
+// Native SOL changes also carry fees, rent and tips; anything smaller isn't a trade
+const SOL_QUOTE_DUST = 0.001;
+
+const abs = (value: bigint) => (value < 0n ? -value : value);
+
+/**
+ * Raw base units to a UI amount (lossy; for display and comparisons only)
+ */
+export function toUiAmount(raw: bigint, decimals: number): number {
+  const scale = 10n ** BigInt(decimals);
+  return Number(raw / scale) + Number(raw % scale) / Number(scale);
+}
+
+/**
+ * Parse a raw amount as reported by RPC/Helius (integer string or number)
+ */
+export function parseRawAmount(value: string | number | bigint | null | undefined): bigint {
+  if (value === null || value === undefined || value === '') return 0n;
+  try {
+    return BigInt(typeof value === 'number' ? Math.round(value) : value);
+  } catch {
+    return 0n;
+  }
+}
+
+/**
+ * Accumulate a signed raw change for a mint
+ */
+export function addTokenDelta(deltas: Map<string, TokenDelta>, mint: string, raw: bigint, decimals: number): void {
+  const existing = deltas.get(mint);
+  deltas.set(mint, { raw: (existing?.raw ?? 0n) + raw, decimals: existing?.decimals ?? decimals });
+}
+
+const uiAmountOf = (leg: TokenDelta) => toUiAmount(leg.raw, leg.decimals);
+
+export function getQuoteAsset(mint: string): QuoteAsset | undefined {
+  return QUOTE_ASSET_BY_MINT.get(mint);
+}
+
+export function isQuoteMint(mint: string): boolean {
+  return QUOTE_ASSET_BY_MINT.has(mint);
+}
+
+/**
+ * Pick the base and quote legs. Returns null for transfers, quote-to-quote swaps
+ * (e.g. SOL -> USDC) and token-to-token swaps with no quote asset to value them.
+ *
+ * @param tokenDeltas net change per mint across the wallet's token accounts
+ * @param nativeLamports net native SOL change in lamports, merged into the WSOL leg
+ */
+export function classifySwapLegs(tokenDeltas: Map<string, TokenDelta>, nativeLamports: bigint): SwapLegs | null {
+  const deltas = new Map(tokenDeltas);
+  if (nativeLamports !== 0n) {
+    addTokenDelta(deltas, KNOWN_TOKENS.SOL, nativeLamports, SOL_DECIMALS);
+  }
+
+  let base: SwapLeg | null = null;
+  for (const [mint, delta] of deltas.entries()) {
+    if (isQuoteMint(mint) || delta.raw === 0n) continue;
+    if (!base || Math.abs(uiAmountOf(delta)) > Math.abs(uiAmountOf(base))) {
+      base = { mint, ...delta };
+    }
+  }
+  if (!base) return null;
+
+  // The quote leg moves the other way; take the most preferred asset that did
+  for (const asset of QUOTE_ASSETS) {
+    const delta = deltas.get(asset.mint);
+    if (!delta) continue;
+    const dust = asset.mint === KNOWN_TOKENS.SOL ? SOL_QUOTE_DUST : QUOTE_DUST;
+    if (Math.abs(uiAmountOf(delta)) < dust || (delta.raw > 0n) === (base.raw > 0n)) continue;
+    return { base, quote: { mint: asset.mint, ...delta, asset } };
+  }
+
+  return null;
+}
+
+/**
+ * Token-to-token trade: exactly one non-quote token left the wallet and one came in.
+ * Any quote movement alongside it is fees/rent, not a value leg.
+ */
+export function classifyRotation(tokenDeltas: Map<string, TokenDelta>): RotationLegs | null {
+  const moved = Array.from(tokenDeltas.entries())
+    .filter(([mint, delta]) => !isQuoteMint(mint) && delta.raw !== 0n)
+    .map(([mint, delta]) => ({ mint, ...delta }));
+
+  if (moved.length !== 2) return null;
+  const sold = moved.find(leg => leg.raw < 0n);
+  const bought = moved.find(leg => leg.raw > 0n);
+  return sold && bought ? { sold, bought } : null;
+}
+
+/**
+ * ParsedSwap amount fields for classified legs. Stablecoin legs are already USD;
+ * other quotes stay in quote units until applyQuoteUsdPrices converts them.
+ */
+export function swapFieldsFromLegs({ base, quote }: SwapLegs) {
+  const isBuy = base.raw > 0n;
+  const tokenAmount = Math.abs(uiAmountOf(base));
+  const quoteAmount = Math.abs(uiAmountOf(quote));
+
+  return {
+    tokenMint: base.mint,
+    type: (isBuy ? 'buy' : 'sell') as 'buy' | 'sell',
+    amountIn: isBuy ? quoteAmount : tokenAmount,
+    amountOut: isBuy ? tokenAmount : quoteAmount,
+    pricePerToken: tokenAmount > 0 ? quoteAmount / tokenAmount : 0,
+    tokenAmountRaw: abs(base.raw),
+    tokenDecimals: base.decimals,
+    quoteMint: quote.mint,
+    quoteCurrency: quote.asset.symbol,
+    quoteAmount,
+    quoteUsdPrice: quote.asset.usdPegged ? 1 : undefined,
+    solAmount: quote.mint === KNOWN_TOKENS.SOL ? quoteAmount : undefined,
+  };
+}
+
+export type SwapFields = ReturnType<typeof swapFieldsFromLegs>;
+
+/**
+ * Swap fields for one transaction: one entry for a normal trade, a sell and a buy
+ * for a rotation, none when nothing was traded.
+ *
+ * Rotations are valued at the quote asset the route passed through when known;
+ * otherwise each side is quoted in the other token and priced in USD from that
+ * token's history by applyQuoteUsdPrices.
+ */
+export function decodeSwapFields(
+  tokenDeltas: Map<string, TokenDelta>,
+  nativeLamports: bigint,
+  routeQuote?: RouteQuote | null
+): SwapFields[] {
+  const rotation = classifyRotation(tokenDeltas);
+  if (!rotation) {
+    const legs = classifySwapLegs(tokenDeltas, nativeLamports);
+    return legs ? [swapFieldsFromLegs(legs)] : [];
+  }
+
+  const { sold, bought } = rotation;
+  const routeAsset = routeQuote ? getQuoteAsset(routeQuote.mint) : undefined;
+
+  if (routeQuote && routeAsset) {
+    return [
+      swapFieldsFromLegs({ base: sold, quote: { ...routeQuote, raw: abs(routeQuote.raw), asset: routeAsset } }),
+      swapFieldsFromLegs({ base: bought, quote: { ...routeQuote, raw: -abs(routeQuote.raw), asset: routeAsset } }),
+    ];
+  }
+
+  const crossAsset = (mint: string): QuoteAsset => ({ mint, symbol: `${mint.slice(0, 4)}...`, usdPegged: false });
+  return [
+    swapFieldsFromLegs({ base: sold, quote: { ...bought, asset: crossAsset(bought.mint) } }),
+    swapFieldsFromLegs({ base: bought, quote: { ...sold, asset: crossAsset(sold.mint) } }),
+  ];
+}
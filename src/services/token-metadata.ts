@@ -0,0 +1,314 @@
+/**
+ * Token Metadata Service
+ *
+ * Symbol, name and logos per mint, looked up in bulk:
+ * 1. in-process map (and hardcoded SOL/USDC)
+ * 2. the token_metadata table, for rows refreshed within METADATA_TTL_MS
+ * 3. Helius DAS getAssetBatch for all remaining mints at once
+ * 4. the Jupiter strict list and the Solana token list, for mints DAS couldn't name
+ *    or show a logo for; each list is downloaded once per process and indexed by mint
+ *
+ * Everything found over the network is written back to token_metadata, so scans on
+ * other servers (and after a cold start) skip the lookups. The table is only used
+ * server-side with the service role; browser lookups go straight to the network.
+ */
+
+import { KNOWN_TOKENS } from '@/config/api';
+import { getServiceSupabaseClient } from '@/integrations/supabase/runtime';
+import { isAbortError } from '@/lib/abort';
+import { DAS_ASSET_BATCH_LIMIT, fetchHeliusAssetBatch, HeliusAssetRecord } from './helius';
+import { scheduledFetch } from './request-scheduler';
+
+export interface TokenMetadata {
+  symbol: string;
+  name: string;
+  logo?: string;
+  logos?: string[];
+}
+
+interface TokenListEntry {
+  symbol: string;
+  name: string;
+  logoURI?: string;
+}
+
+type TokenListName = 'jupiter' | 'token-list';
+
+// Names change rarely, but logos and rebrands do happen
+const METADATA_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Mints per token_metadata read, keeping the `in` filter well within URL limits
+const DB_READ_CHUNK = 100;
+// A list that failed to download is retried after this long rather than on every lookup
+const TOKEN_LIST_RETRY_MS = 5 * 60 * 1000;
+
+const TOKEN_LIST_URLS: Record<TokenListName, string> = {
+  jupiter: 'https://token.jup.ag/strict',
+  'token-list': 'https://cdn.jsdelivr.net/gh/solana-labs/token-list@main/src/tokens/solana.tokenlist.json',
+};
+
+const SOL_LOGO = 'https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/So11111111111111111111111111111111111111112/logo.png';
+const USDC_LOGO = 'https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v/logo.png';
+
+const KNOWN_METADATA: Record<string, TokenMetadata> = {
+  [KNOWN_TOKENS.SOL]: { symbol: 'SOL', name: 'Solana', logo: SOL_LOGO, logos: [SOL_LOGO] },
+  [KNOWN_TOKENS.USDC]: { symbol: 'USDC', name: 'USD Coin', logo: USDC_LOGO, logos: [USDC_LOGO] },
+};
+
+const metadataCache = new Map<string, TokenMetadata>();
+// Lookups in progress, so concurrent batches don't fetch the same mint twice
+const pendingLookups = new Map<string, Promise<TokenMetadata>>();
+const tokenLists = new Map<TokenListName, Promise<Map<string, TokenListEntry> | null>>();
+
+function buildStandardLogoCandidates(tokenMint: string): string[] {
+  return [
+    `https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/${tokenMint}/logo.png`,
+    `https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/${tokenMint}/logo.svg`,
+    `https://pump.fun/cdn/${tokenMint}/logo.png`,
+    `https://pump.fun/cdn/${tokenMint}/logo.webp`,
+  ];
+}
+
+function isUsableLogo(url: unknown): url is string {
+  return typeof url === 'string' && url.length > 5 && !url.includes('undefined');
+}
+
+/**
+ * Metadata with the given logos first and the standard CDN candidates after them
+ */
+function withLogos(tokenMint: string, symbol: string, name: string, logos: unknown[]): TokenMetadata {
+  const allLogos = Array.from(new Set([
+    ...logos.filter(isUsableLogo),
+    ...buildStandardLogoCandidates(tokenMint),
+  ]));
+  return { symbol, name, logo: allLogos[0], logos: allLogos };
+}
+
+function generateFallback(tokenMint: string): TokenMetadata {
+  return withLogos(tokenMint, tokenMint.slice(0, 6) + '...' + tokenMint.slice(-4), 'Unknown Token', []);
+}
+
+/**
+ * A whole token list, downloaded once per process and indexed by mint (null while
+ * the last download failed). The download is shared, so it never takes a caller's signal.
+ */
+function loadTokenList(list: TokenListName): Promise<Map<string, TokenListEntry> | null> {
+  const cached = tokenLists.get(list);
+  if (cached) return cached;
+
+  const entries = (async () => {
+    try {
+      const response = await scheduledFetch(list, TOKEN_LIST_URLS[list], undefined, { priority: 'low' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      const tokens: any[] = Array.isArray(data) ? data : data?.tokens ?? [];
+
+      const index = new Map<string, TokenListEntry>();
+      for (const token of tokens) {
+        if (token?.address && token.symbol && token.name) {
+          index.set(token.address, { symbol: token.symbol, name: token.name, logoURI: token.logoURI });
+        }
+      }
+      console.log(`Loaded ${index.size} tokens from ${list} list`);
+      return index;
+    } catch (error) {
+      console.warn(`Failed to load ${list} token list:`, error instanceof Error ? error.message : error);
+      setTimeout(() => tokenLists.delete(list), TOKEN_LIST_RETRY_MS);
+      return null;
+    }
+  })();
+
+  tokenLists.set(list, entries);
+  return entries;
+}
+
+async function readStoredMetadata(tokenMints: string[]): Promise<Map<string, TokenMetadata>> {
+  const stored = new Map<string, TokenMetadata>();
+  const supabase = await getServiceSupabaseClient();
+  if (!supabase) return stored;
+
+  const freshSince = new Date(Date.now() - METADATA_TTL_MS).toISOString();
+  for (let start = 0; start < tokenMints.length; start += DB_READ_CHUNK) {
+    const { data, error } = await supabase
+      .from('token_metadata')
+      .select('mint, symbol, name, logo')
+      .in('mint', tokenMints.slice(start, start + DB_READ_CHUNK))
+      .gte('updated_at', freshSince);
+
+    if (error) {
+      console.warn('Failed to read stored token metadata:', error.message);
+      return stored;
+    }
+
+    for (const row of data ?? []) {
+      stored.set(row.mint, withLogos(row.mint, row.symbol, row.name, [row.logo]));
+    }
+  }
+
+  return stored;
+}
+
+async function storeMetadata(found: Map<string, TokenMetadata>): Promise<void> {
+  if (found.size === 0) return;
+  const supabase = await getServiceSupabaseClient();
+  if (!supabase) return;
+
+  const updatedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('token_metadata')
+    .upsert(Array.from(found.entries()).map(([mint, metadata]) => ({
+      mint,
+      symbol: metadata.symbol,
+      name: metadata.name,
+      logo: metadata.logo ?? null,
+      updated_at: updatedAt,
+    })), {
+      onConflict: 'mint',
+    });
+
+  if (error) {
+    console.warn('Failed to store token metadata:', error.message);
+  }
+}
+
+/**
+ * DAS assets for the mints, by mint (missing where Helius has none or the call failed)
+ */
+async function fetchDasAssets(tokenMints: string[], signal?: AbortSignal): Promise<Map<string, HeliusAssetRecord>> {
+  const assets = new Map<string, HeliusAssetRecord>();
+
+  for (let start = 0; start < tokenMints.length; start += DAS_ASSET_BATCH_LIMIT) {
+    const chunk = tokenMints.slice(start, start + DAS_ASSET_BATCH_LIMIT);
+    try {
+      const records = await fetchHeliusAssetBatch(chunk, signal);
+      for (const [tokenMint, record] of Object.entries(records)) {
+        assets.set(tokenMint, record);
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`Helius getAssetBatch failed for ${chunk.length} mints:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return assets;
+}
+
+/**
+ * Look up mints that are neither in memory nor fresh in the database.
+ * Returns what was found by mint; mints nobody knows are left out.
+ */
+async function fetchMetadata(tokenMints: string[], signal?: AbortSignal): Promise<Map<string, TokenMetadata>> {
+  const found = new Map<string, TokenMetadata>();
+  const assets = await fetchDasAssets(tokenMints, signal);
+
+  const incomplete: string[] = [];
+  for (const tokenMint of tokenMints) {
+    const asset = assets.get(tokenMint);
+    if (asset?.symbol && asset.logos.length > 0) {
+      found.set(tokenMint, withLogos(tokenMint, asset.symbol, asset.name || asset.symbol, asset.logos));
+    } else {
+      incomplete.push(tokenMint);
+    }
+  }
+
+  if (incomplete.length === 0) return found;
+
+  // Only download the lists when DAS left something out
+  const [jupiter, tokenList] = await Promise.all([loadTokenList('jupiter'), loadTokenList('token-list')]);
+  signal?.throwIfAborted();
+
+  for (const tokenMint of incomplete) {
+    const asset = assets.get(tokenMint);
+    const listed = [jupiter?.get(tokenMint), tokenList?.get(tokenMint)].filter(
+      (entry): entry is TokenListEntry => Boolean(entry)
+    );
+    const symbol = asset?.symbol || listed[0]?.symbol;
+    if (!symbol) continue;
+
+    const name = asset?.name || listed[0]?.name || symbol;
+    found.set(tokenMint, withLogos(tokenMint, symbol, name, [
+      ...(asset?.logos ?? []),
+      ...listed.map(entry => entry.logoURI),
+    ]));
+  }
+
+  return found;
+}
+
+/**
+ * Database, then network, for mints not in memory; fills the in-process map
+ */
+async function lookupMetadata(tokenMints: string[], signal?: AbortSignal): Promise<Map<string, TokenMetadata>> {
+  const result = await readStoredMetadata(tokenMints);
+  const missing = tokenMints.filter(mint => !result.has(mint));
+
+  if (missing.length > 0) {
+    const fetched = await fetchMetadata(missing, signal);
+    await storeMetadata(fetched);
+    for (const tokenMint of missing) {
+      result.set(tokenMint, fetched.get(tokenMint) ?? generateFallback(tokenMint));
+    }
+  }
+
+  for (const [tokenMint, metadata] of result) {
+    metadataCache.set(tokenMint, metadata);
+  }
+  return result;
+}
+
+/**
+ * Metadata for many mints at once; every mint gets an entry (a placeholder for
+ * mints no source knows). Rejects only when `signal` aborts.
+ */
+export async function getTokenMetadataBatch(
+  tokenMints: string[],
+  signal?: AbortSignal
+): Promise<Map<string, TokenMetadata>> {
+  const result = new Map<string, TokenMetadata>();
+  const waiting: Array<[string, Promise<TokenMetadata>]> = [];
+  const toLookUp: string[] = [];
+
+  for (const tokenMint of new Set(tokenMints)) {
+    const known = KNOWN_METADATA[tokenMint] ?? metadataCache.get(tokenMint);
+    const pending = pendingLookups.get(tokenMint);
+    if (known) result.set(tokenMint, known);
+    else if (pending) waiting.push([tokenMint, pending]);
+    else toLookUp.push(tokenMint);
+  }
+
+  if (toLookUp.length > 0) {
+    const lookup = lookupMetadata(toLookUp, signal);
+    for (const tokenMint of toLookUp) {
+      const pending = lookup.then(found => found.get(tokenMint)!);
+      pending.catch(() => undefined);
+      pendingLookups.set(tokenMint, pending);
+      waiting.push([tokenMint, pending]);
+    }
+    lookup
+      .catch(() => undefined)
+      .finally(() => toLookUp.forEach(tokenMint => pendingLookups.delete(tokenMint)));
+  }
+
+  for (const [tokenMint, pending] of waiting) {
+    try {
+      result.set(tokenMint, await pending);
+    } catch (error) {
+      // Another scan's lookup was cancelled; look the mint up again under our own signal
+      if (isAbortError(error) && !signal?.aborted) {
+        const retried = await getTokenMetadataBatch([tokenMint], signal);
+        result.set(tokenMint, retried.get(tokenMint)!);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Metadata for one mint (see getTokenMetadataBatch; prefer it when enriching many swaps)
+ */
+export async function getTokenMetadata(tokenMint: string, signal?: AbortSignal): Promise<TokenMetadata> {
+  const result = await getTokenMetadataBatch([tokenMint], signal);
+  return result.get(tokenMint)!;
+}
@@ -0,0 +1,153 @@
+/**
+ * Current Token Price Service
+ *
+ * Current USD price and market cap per mint, looked up in bulk:
+ * 1. in-process map, for quotes younger than PRICE_TTL_MS
+ * 2. the token_prices table, with the same TTL, so scans on other servers share quotes
+ * 3. the price oracle (./price-oracle), which asks DexScreener, Jupiter and Birdeye
+ *    for every remaining mint and rejects outlier prices
+ *
+ * Fresh quotes are written back to token_prices along with their source and confidence.
+ * The table is only used server-side with the service role (step 2 is skipped in the browser).
+ */
+
+import { getServiceSupabaseClient } from '@/integrations/supabase/runtime';
+import type { PriceConfidence } from '@/types/paperhands';
+import { EMPTY_QUOTE, fetchOracleQuotes, OracleSource, TokenQuote } from './price-oracle';
+
+const ORACLE_SOURCES: OracleSource[] = ['dexscreener', 'jupiter', 'birdeye'];
+const CONFIDENCE_LEVELS: PriceConfidence[] = ['high', 'medium', 'low'];
+
+// Prices move fast; this only spares concurrent and back-to-back scans the same lookups
+const PRICE_TTL_MS = 2 * 60 * 1000;
+// Mints per token_prices read, keeping the `in` filter well within URL limits
+const DB_READ_CHUNK = 100;
+
+interface CachedQuote {
+  quote: TokenQuote;
+  fetchedAt: number;
+}
+
+const quoteCache = new Map<string, CachedQuote>();
+
+function toNumber(value: unknown): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function toOption<T extends string>(value: string | null, options: T[]): T | undefined {
+  return options.find(option => option === value);
+}
+
+async function readStoredQuotes(tokenMints: string[]): Promise<Map<string, CachedQuote>> {
+  const stored = new Map<string, CachedQuote>();
+  const supabase = await getServiceSupabaseClient();
+  if (!supabase) return stored;
+
+  const freshSince = new Date(Date.now() - PRICE_TTL_MS).toISOString();
+  for (let start = 0; start < tokenMints.length; start += DB_READ_CHUNK) {
+    const { data, error } = await supabase
+      .from('token_prices')
+      .select('mint, price, market_cap, price_change_24h, price_source, price_confidence, updated_at')
+      .in('mint', tokenMints.slice(start, start + DB_READ_CHUNK))
+      .gte('updated_at', freshSince);
+
+    if (error) {
+      console.warn('Failed to read stored token prices:', error.message);
+      return stored;
+    }
+
+    for (const row of data ?? []) {
+      stored.set(row.mint, {
+        quote: {
+          price: toNumber(row.price),
+          marketCap: toNumber(row.market_cap),
+          priceChange24h: row.price_change_24h ?? undefined,
+          source: toOption(row.price_source, ORACLE_SOURCES),
+          confidence: toOption(row.price_confidence, CONFIDENCE_LEVELS),
+        },
+        fetchedAt: new Date(row.updated_at).getTime(),
+      });
+    }
+  }
+
+  return stored;
+}
+
+async function storeQuotes(quotes: Map<string, TokenQuote>): Promise<void> {
+  const listed = Array.from(quotes.entries()).filter(([, quote]) => quote.price > 0);
+  if (listed.length === 0) return;
+  const supabase = await getServiceSupabaseClient();
+  if (!supabase) return;
+
+  const updatedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('token_prices')
+    .upsert(listed.map(([mint, quote]) => ({
+      mint,
+      price: quote.price,
+      market_cap: quote.marketCap || null,
+      price_change_24h: quote.priceChange24h ?? null,
+      price_source: quote.source ?? null,
+      price_confidence: quote.confidence ?? null,
+      updated_at: updatedAt,
+    })), {
+      onConflict: 'mint',
+    });
+
+  if (error) {
+    console.warn('Failed to store token prices:', error.message);
+  }
+}
+
+/**
+ * Current quotes for many mints at once; every mint gets an entry (price 0 when
+ * nothing lists it). Rejects only when `signal` aborts.
+ */
+export async function getTokenQuotes(tokenMints: string[], signal?: AbortSignal): Promise<Map<string, TokenQuote>> {
+  const result = new Map<string, TokenQuote>();
+
+  const notInMemory: string[] = [];
+  for (const tokenMint of new Set(tokenMints)) {
+    const cached = quoteCache.get(tokenMint);
+    if (cached && Date.now() - cached.fetchedAt < PRICE_TTL_MS) result.set(tokenMint, cached.quote);
+    else notInMemory.push(tokenMint);
+  }
+  if (notInMemory.length === 0) return result;
+
+  const stored = await readStoredQuotes(notInMemory);
+  const missing = notInMemory.filter(mint => !stored.has(mint));
+
+  const fetched = missing.length > 0 ? await fetchOracleQuotes(missing, signal) : new Map<string, TokenQuote>();
+  await storeQuotes(fetched);
+
+  for (const [tokenMint, cached] of stored) {
+    quoteCache.set(tokenMint, cached);
+    result.set(tokenMint, cached.quote);
+  }
+  const fetchedAt = Date.now();
+  for (const [tokenMint, quote] of fetched) {
+    quoteCache.set(tokenMint, { quote, fetchedAt });
+    result.set(tokenMint, quote);
+  }
+  // Mints no provider answered for aren't cached, so the next scan asks again
+  for (const tokenMint of missing) {
+    if (!result.has(tokenMint)) result.set(tokenMint, EMPTY_QUOTE);
+  }
+  return result;
+}
+
+/**
+ * Current quote for one mint (see getTokenQuotes; prefer it for many mints)
+ */
+export async function getTokenQuote(tokenMint: string, signal?: AbortSignal): Promise<TokenQuote> {
+  const quotes = await getTokenQuotes([tokenMint], signal);
+  return quotes.get(tokenMint) ?? EMPTY_QUOTE;
+}
+
+/**
+ * Pair of a quote fetched in this process, without any lookup
+ */
+export function getCachedPairAddress(tokenMint: string): string | undefined {
+  return quoteCache.get(tokenMint)?.quote.pairAddress;
+}
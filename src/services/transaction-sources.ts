@@ -0,0 +1,132 @@
+/**
+ * Transaction Sources
+ *
+ * A TransactionSource turns a wallet address into a stream of ParsedSwap batches.
+ * analyzePaperhands only talks to this interface, so the same engine can run on
+ * Helius Enhanced, the raw RPC fallback, or recorded fixtures (see ./fixture-source).
+ */
+
+import {
+  parseSwapsIncrementally,
+  fetchWalletTransactions,
+  parseSwapTransactions,
+  ParsedSwap,
+  SwapBatchCallback,
+  SwapHistory,
+} from './solana';
+import { isAbortError } from '@/lib/abort';
+import type { ProgressReporter } from '@/types/progress';
+
+export interface TransactionSourceParams {
+  daysBack?: number;
+  onProgress?: ProgressReporter;
+  onBatch?: SwapBatchCallback;
+  /** Helius Enhanced page size (halved automatically on 400s) */
+  heliusPageSize?: number;
+  /** getSignaturesForAddress page size */
+  rpcPageSize?: number;
+  /** Stop paging at this signature (exclusive), e.g. the newest one already stored */
+  untilSignature?: string;
+  /** Cancels in-flight requests; fetchSwaps then rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+export interface TransactionSource {
+  readonly name: string;
+  /**
+   * Fetch and parse swaps for a wallet. Implementations call onBatch as swaps
+   * become available and finish with onBatch([], true), then resolve with every
+   * swap and whether the history is complete back to the window start.
+   */
+  fetchSwaps(walletAddress: string, params: TransactionSourceParams): Promise<SwapHistory>;
+}
+
+/**
+ * Helius Enhanced Transactions API (paginated, metadata-enriched)
+ */
+export const heliusEnhancedSource: TransactionSource = {
+  name: 'helius-enhanced',
+  fetchSwaps: (walletAddress, { daysBack, onProgress, onBatch, heliusPageSize, untilSignature, signal }) =>
+    parseSwapsIncrementally(walletAddress, daysBack, onProgress, onBatch, heliusPageSize, untilSignature, signal),
+};
+
+/**
+ * Raw RPC: getSignaturesForAddress + getParsedTransaction per signature
+ */
+export const rpcSource: TransactionSource = {
+  name: 'rpc',
+  fetchSwaps: async (walletAddress, { daysBack, onProgress, onBatch, rpcPageSize, untilSignature, signal }) => {
+    const transactions = await fetchWalletTransactions(walletAddress, daysBack, onProgress, rpcPageSize, untilSignature, signal);
+    const swaps = await parseSwapTransactions(walletAddress, transactions, daysBack, onProgress, signal);
+
+    if (onBatch) {
+      if (swaps.length > 0) onBatch(swaps, false);
+      onBatch([], true);
+    }
+
+    return { swaps, complete: true };
+  },
+};
+
+/**
+ * Use the primary source, and fall back when it errors, stops early or finds no swaps.
+ * An incremental fetch (untilSignature) that finishes without new swaps is a valid
+ * answer, not a reason to rescan everything.
+ */
+export function withFallback(primary: TransactionSource, fallback: TransactionSource): TransactionSource {
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    fetchSwaps: async (walletAddress, params) => {
+      // Whatever the primary already passed on; the fallback skips those transactions
+      const forwarded: ParsedSwap[] = [];
+      const forwardPrimaryBatch: SwapBatchCallback = (swaps, isComplete) => {
+        // Hold back the completion signal until we know the fallback isn't needed
+        if (isComplete) return;
+        forwarded.push(...swaps);
+        params.onBatch?.(swaps, false);
+      };
+
+      let partial: SwapHistory | undefined;
+      try {
+        const history = await primary.fetchSwaps(walletAddress, { ...params, onBatch: forwardPrimaryBatch });
+        if (history.complete && (history.swaps.length > 0 || params.untilSignature)) {
+          params.onBatch?.([], true);
+          return history;
+        }
+        if (history.complete) {
+          console.info(`${primary.name} returned no swaps, trying ${fallback.name}...`);
+        } else {
+          console.warn(`${primary.name} stopped early, trying ${fallback.name}...`);
+          partial = history;
+        }
+      } catch (error) {
+        // A cancelled scan must not fall through to the next source
+        if (isAbortError(error)) throw error;
+        console.warn(`${primary.name} failed, trying ${fallback.name}:`, (error as Error)?.message || error);
+      }
+
+      // A rotation yields two swaps with one signature, so only drop transactions the primary sent
+      const forwardedSignatures = new Set(forwarded.map(swap => swap.signature));
+      const isNew = (swap: ParsedSwap) => !forwardedSignatures.has(swap.signature);
+
+      try {
+        const history = await fallback.fetchSwaps(walletAddress, {
+          ...params,
+          onBatch: (swaps, isComplete) => {
+            const fresh = swaps.filter(isNew);
+            if (fresh.length > 0 || isComplete) params.onBatch?.(fresh, isComplete);
+          },
+        });
+        return { swaps: [...forwarded, ...history.swaps.filter(isNew)], complete: history.complete };
+      } catch (error) {
+        if (isAbortError(error) || !partial) throw error;
+        // Better the primary's partial history than none
+        console.warn(`${fallback.name} failed too, keeping the partial history:`, (error as Error)?.message || error);
+        params.onBatch?.([], true);
+        return partial;
+      }
+    },
+  };
+}
+
+export const defaultTransactionSource: TransactionSource = heliusEnhancedSource;
@@ -0,0 +1,116 @@
+/**
+ * Transfer Classification
+ *
+ * Token movements that aren't trades: airdrops and claims, transfers between the
+ * trader's own wallets and sends/receives with anyone else. They carry no value
+ * leg; the analysis core turns receives into lots (zero or market cost basis)
+ * and sends into lot reductions that don't count as exits.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { isQuoteMint, toUiAmount, TokenDelta } from './swap-legs';
+import type { ParsedSwap } from './solana';
+
+export type TransferKind = 'airdrop' | 'self' | 'external';
+
+/**
+ * Program-derived addresses are off-curve: tokens from one came out of a program
+ * vault (a claim or distributor), not from another trader
+ */
+function isProgramAddress(address: string): boolean {
+  try {
+    return !PublicKey.isOnCurve(new PublicKey(address).toBytes());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @param counterparty owner on the other side, undefined for mints and burns
+ * @param ownWallets addresses that belong to the same trader
+ */
+export function classifyTransfer(
+  direction: 'in' | 'out',
+  counterparty: string | undefined,
+  ownWallets: ReadonlySet<string>
+): TransferKind {
+  if (counterparty && ownWallets.has(counterparty)) return 'self';
+  if (direction === 'in' && (!counterparty || isProgramAddress(counterparty))) return 'airdrop';
+  return 'external';
+}
+
+/**
+ * The owner whose balance of a mint moved the most in the opposite direction
+ *
+ * @param ownerDeltas raw change per owner for one mint, wallet excluded
+ */
+export function findCounterparty(ownerDeltas: Map<string, bigint> | undefined, walletRaw: bigint): string | undefined {
+  let best: { owner: string; raw: bigint } | undefined;
+  for (const [owner, raw] of ownerDeltas?.entries() ?? []) {
+    if ((raw > 0n) === (walletRaw > 0n) || raw === 0n) continue;
+    const size = raw < 0n ? -raw : raw;
+    if (!best || size > best.raw) best = { owner, raw: size };
+  }
+  return best?.owner;
+}
+
+/**
+ * ParsedSwap fields for the traded-token movements of a transaction that had no
+ * swap. Quote assets (SOL, stables, ...) moving on their own aren't tracked.
+ */
+export function decodeTransferFields(
+  tokenDeltas: Map<string, TokenDelta>,
+  counterparties: Map<string, string | undefined>,
+  ownWallets: ReadonlySet<string>
+) {
+  return Array.from(tokenDeltas.entries())
+    .filter(([mint, delta]) => !isQuoteMint(mint) && delta.raw !== 0n)
+    .map(([mint, delta]) => {
+      const incoming = delta.raw > 0n;
+      const amount = Math.abs(toUiAmount(delta.raw, delta.decimals));
+      const counterparty = counterparties.get(mint);
+      return {
+        tokenMint: mint,
+        type: (incoming ? 'transfer_in' : 'transfer_out') as 'transfer_in' | 'transfer_out',
+        amountIn: incoming ? 0 : amount,
+        amountOut: incoming ? amount : 0,
+        pricePerToken: 0,
+        tokenAmountRaw: incoming ? delta.raw : -delta.raw,
+        tokenDecimals: delta.decimals,
+        quoteMint: '',
+        quoteCurrency: '',
+        transferKind: classifyTransfer(incoming ? 'in' : 'out', counterparty, ownWallets),
+        counterparty,
+      };
+    });
+}
+
+/**
+ * A transfer between wallets of the same trader (moves tokens, changes nothing)
+ */
+export function isInternalTransfer(swap: ParsedSwap, ownWallets: ReadonlySet<string>): boolean {
+  if (swap.type !== 'transfer_in' && swap.type !== 'transfer_out') return false;
+  return swap.transferKind === 'self' || (!!swap.counterparty && ownWallets.has(swap.counterparty));
+}
+
+/**
+ * Wallets that both sent tokens to and received tokens from the given wallet's
+ * transfers, most transfers first. Two-way traffic is what a trader moving a bag
+ * between their own wallets looks like; one-way sends are usually payments or airdrops.
+ */
+export function detectLinkedWallets(swaps: ParsedSwap[], walletAddress: string, limit: number): string[] {
+  const flows = new Map<string, { sent: number; received: number }>();
+  for (const swap of swaps) {
+    if (swap.transferKind !== 'external' || !swap.counterparty || swap.counterparty === walletAddress) continue;
+    const flow = flows.get(swap.counterparty) ?? { sent: 0, received: 0 };
+    if (swap.type === 'transfer_out') flow.sent++;
+    if (swap.type === 'transfer_in') flow.received++;
+    flows.set(swap.counterparty, flow);
+  }
+
+  return Array.from(flows.entries())
+    .filter(([, flow]) => flow.sent > 0 && flow.received > 0)
+    .sort((a, b) => (b[1].sent + b[1].received) - (a[1].sent + a[1].received))
+    .slice(0, limit)
+    .map(([wallet]) => wallet);
+}
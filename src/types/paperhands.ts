@@ -1,3 +1,34 @@
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average' | 'hifo';
+
+/** Cost basis for tokens received without a buy: nothing, or their price on arrival */
+export type ReceivedCostBasis = 'zero' | 'market';
+
+/**
+ * Tunables for a wallet analysis (validated by analysisOptionsSchema in @/config/analysis)
+ */
+export interface AnalysisOptions {
+  daysBack?: number;
+  costBasis: CostBasisMethod;
+  receivedCostBasis: ReceivedCostBasis;
+  minEventUsd: number;
+  timeoutMs: number;
+  heliusPageSize: number;
+  rpcPageSize: number;
+  scoreScale: number;
+  includeRpcFallback: boolean;
+  useSwapCache: boolean;
+  /** Other wallets of the same trader, analyzed together with the main one */
+  linkedWallets: string[];
+  /** Also add wallets the main one moved tokens to and from */
+  detectLinkedWallets: boolean;
+}
+
+/** Where a current price came from; 'trade' when no source had one and the trade's own price stands in */
+export type PriceSource = 'dexscreener' | 'jupiter' | 'birdeye' | 'trade';
+
+/** high: 2+ sources agree with none dropped; medium: 2+ agree after dropping an outlier, or one source on a deep pool; low otherwise */
+export type PriceConfidence = 'high' | 'medium' | 'low';
+
 export interface Token {
   symbol: string;
   name: string;
@@ -19,15 +50,53 @@ export interface PaperhandsEvent {
   peakDate?: string;
   amount: number;
   realizedProfit: number;
+  /** Cost and proceeds in SOL as traded (USD fields are converted at trade time) */
+  buyValueSol?: number;
+  sellValueSol?: number;
   unrealizedProfit: number;
   regretAmount: number;
   regretPercent: number;
   peakPrice: number;
+  currentPrice?: number;
   marketCap?: number;
+  /** Where currentPrice came from and how far it can be trusted */
+  priceSource?: PriceSource;
+  priceConfidence?: PriceConfidence;
   txHash: string;
   explorerUrl: string;
 }
 
+/**
+ * Lots still held at the end of the analysis window
+ */
+export interface OpenPosition {
+  tokenMint: string;
+  tokenSymbol: string;
+  tokenName: string;
+  tokenLogo?: string;
+  tokenLogos?: string[];
+  amount: number;
+  costBasis: number;
+  avgEntryPrice: number;
+  currentPrice: number;
+  currentValue: number;
+  unrealizedProfit: number;
+  unrealizedPercent: number;
+  firstBuyDate: string;
+  /** Highest price since the oldest open lot was bought */
+  peakPrice: number;
+  peakDate: string;
+  /** Percent below peakPrice the bag is now (0 = at the peak) */
+  drawdownFromPeak: number;
+}
+
+export interface WalletHoldings {
+  positions: OpenPosition[];
+  totalCostBasis: number;
+  totalCurrentValue: number;
+  totalUnrealizedProfit: number;
+}
+
 export interface WalletStats {
   address: string;
   ensName?: string;
@@ -63,6 +132,21 @@ export interface WalletStats {
     daysBack: number;
   };
   isPartial?: boolean;
+  /** Trades fetched but left out because the asset they were paid in had no USD price */
+  unpricedSwaps?: number;
+  /** Lot matching method used for realized PnL; cached results are only comparable within a method */
+  costBasisMethod?: CostBasisMethod;
+  holdings?: WalletHoldings;
+  /** Per-token breakdown for every traded mint (not only $100+ events) */
+  tokenStats?: TokenStats[];
+  /** Trades per DEX, by USD volume */
+  dexBreakdown?: DexBreakdown[];
+  /** Network fees, priority fees and tips paid on the analyzed swaps */
+  fees?: FeeSummary;
+  /** Other wallets merged into this analysis (declared and detected) */
+  linkedWallets?: string[];
+  /** Options the analysis ran with */
+  analysisOptions?: AnalysisOptions;
 }
 
 export interface LeaderboardEntry {
@@ -83,12 +167,49 @@ export interface ChartDataPoint {
   label?: string;
 }
 
+/**
+ * Trades and USD volume attributed to one DEX / venue
+ */
+export interface DexBreakdown {
+  dex: string;
+  trades: number;
+  buys: number;
+  sells: number;
+  volume: number;
+}
+
+/**
+ * Fees paid to land swaps, in USD at the SOL price of each trade
+ * (already included in cost basis and proceeds)
+ */
+export interface FeeSummary {
+  totalPaid: number;
+  network: number;
+  priority: number;
+  tips: number;
+  /** Same total in SOL, including fees whose USD price was unknown */
+  totalPaidSol: number;
+  /** Swaps the wallet paid fees on */
+  swapsWithFees: number;
+  /** USD volume of the analyzed swaps */
+  volume: number;
+  /** totalPaid as a percentage of volume */
+  percentOfVolume: number;
+}
+
 export interface TokenStats {
   symbol: string;
+  tokenMint?: string;
+  tokenName?: string;
+  tokenLogo?: string;
+  tokenLogos?: string[];
   buys: number;
   sells: number;
   avgEntry: number;
   avgExit: number;
+  /** USD spent buying / received selling over the window */
+  boughtValue?: number;
+  soldValue?: number;
   realized: number;
   unrealized: number;
   regret: number;
@@ -0,0 +1,60 @@
+/**
+ * Scan progress events
+ *
+ * Sources and price fetchers report ScanProgressUpdates (what just happened);
+ * the tracker in services/scan-progress folds them into ScanProgressEvents (where
+ * the whole scan stands), which the UI, the scan_jobs table and logs consume.
+ */
+
+export type ScanPhase = 'fetching' | 'parsing' | 'enriching' | 'pricing' | 'scoring' | 'complete';
+
+export interface ScanProgressCounts {
+  /** Transaction history pages fetched (Helius Enhanced or signature pages) */
+  pages: number;
+  /** Transactions found in the analysis window */
+  transactions: number;
+  /** Transactions fetched and decoded one by one (RPC fallback only) */
+  transactionsParsed: number;
+  /** Trades and transfers collected */
+  swaps: number;
+  /** Trades left out because the asset they were paid in had no USD price */
+  unpricedSwaps: number;
+  /** Traded mints whose prices are fetched, out of mintsTotal */
+  mintsPriced: number;
+  mintsTotal: number;
+}
+
+export interface ScanProgressUpdate {
+  /** Omitted to stay in the current phase */
+  phase?: ScanPhase;
+  message?: string;
+  /** Added to the running counts */
+  add?: Partial<ScanProgressCounts>;
+  /** How far through the current wallet's history the source is (0-1), when it can tell */
+  fraction?: number;
+  /** Waiting this long before retrying (rate limit or transient error) */
+  waitingMs?: number;
+}
+
+export interface ScanProgressEvent {
+  phase: ScanPhase;
+  message: string;
+  /** 0-100, never decreases */
+  percent: number;
+  counts: ScanProgressCounts;
+  /** Wallet being fetched and its position in a linked-wallet cluster */
+  wallet?: string;
+  walletIndex: number;
+  walletCount: number;
+  startedAt: number;
+  elapsedMs: number;
+  /** Estimated time left; absent until there is enough progress to extrapolate */
+  etaMs?: number;
+  waitingMs?: number;
+}
+
+/** Consumer of full progress events (analyzePaperhands' onProgress) */
+export type ProgressCallback = (event: ScanProgressEvent) => void;
+
+/** What sources and fetchers call to report an update */
+export type ProgressReporter = (update: ScanProgressUpdate) => void;
@@ -0,0 +1,33 @@
+-- OHLCV candles per mint, used to find the real post-sell peak
+CREATE TABLE public.token_price_candles (
+  mint TEXT NOT NULL,
+  resolution TEXT NOT NULL CHECK (resolution IN ('hour', 'day')),
+  bucket_start TIMESTAMPTZ NOT NULL,
+  open NUMERIC NOT NULL,
+  high NUMERIC NOT NULL,
+  low NUMERIC NOT NULL,
+  close NUMERIC NOT NULL,
+  volume NUMERIC,
+  pool_address TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (mint, resolution, bucket_start)
+);
+
+CREATE INDEX idx_token_price_candles_lookup
+  ON public.token_price_candles(mint, resolution, bucket_start DESC);
+
+-- Enable RLS
+ALTER TABLE public.token_price_candles ENABLE ROW LEVEL SECURITY;
+
+-- Candles are public market data
+CREATE POLICY "Anyone can view token price candles"
+  ON public.token_price_candles FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can insert token price candles"
+  ON public.token_price_candles FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update token price candles"
+  ON public.token_price_candles FOR UPDATE
+  USING (true);
@@ -0,0 +1,8 @@
+-- Cost-basis method requested for a scan and used for a cached analysis
+ALTER TABLE public.scan_jobs
+ADD COLUMN cost_basis TEXT NOT NULL DEFAULT 'fifo'
+  CHECK (cost_basis IN ('fifo', 'lifo', 'average', 'hifo'));
+
+ALTER TABLE public.wallet_analyses
+ADD COLUMN cost_basis_method TEXT NOT NULL DEFAULT 'fifo'
+  CHECK (cost_basis_method IN ('fifo', 'lifo', 'average', 'hifo'));
@@ -0,0 +1,4 @@
+-- Full analysis options requested for a scan (thresholds, timeout, page sizes, ...)
+-- days_back and cost_basis stay as their own columns for filtering
+ALTER TABLE public.scan_jobs
+ADD COLUMN options JSONB;
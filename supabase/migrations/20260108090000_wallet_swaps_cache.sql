@@ -0,0 +1,50 @@
+-- Parsed swaps per wallet, so rescans only fetch what happened since the last scan
+CREATE TABLE public.wallet_swaps (
+  wallet_address TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  block_time TIMESTAMPTZ NOT NULL,
+  token_mint TEXT NOT NULL,
+  swap_type TEXT NOT NULL CHECK (swap_type IN ('buy', 'sell')),
+  swap JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (wallet_address, signature)
+);
+
+CREATE INDEX idx_wallet_swaps_wallet_time
+  ON public.wallet_swaps(wallet_address, block_time DESC);
+
+-- How far back the stored swaps for a wallet are complete
+CREATE TABLE public.wallet_swap_sync (
+  wallet_address TEXT PRIMARY KEY,
+  covered_from TIMESTAMPTZ NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.wallet_swaps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_swap_sync ENABLE ROW LEVEL SECURITY;
+
+-- Swaps are public on-chain data
+CREATE POLICY "Anyone can view wallet swaps"
+  ON public.wallet_swaps FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can insert wallet swaps"
+  ON public.wallet_swaps FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update wallet swaps"
+  ON public.wallet_swaps FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Anyone can view wallet swap sync"
+  ON public.wallet_swap_sync FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can insert wallet swap sync"
+  ON public.wallet_swap_sync FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update wallet swap sync"
+  ON public.wallet_swap_sync FOR UPDATE
+  USING (true);
@@ -0,0 +1,3 @@
+-- A token-to-token rotation is stored as two swaps (sell + buy) with the same signature
+ALTER TABLE public.wallet_swaps DROP CONSTRAINT wallet_swaps_pkey;
+ALTER TABLE public.wallet_swaps ADD PRIMARY KEY (wallet_address, signature, token_mint);
@@ -0,0 +1,3 @@
+-- Shape of the stored swap JSON; coverage written for an older shape is refetched
+ALTER TABLE public.wallet_swap_sync
+  ADD COLUMN swap_version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,4 @@
+-- Token transfers (airdrops, sends, receives) are stored alongside trades
+ALTER TABLE public.wallet_swaps DROP CONSTRAINT wallet_swaps_swap_type_check;
+ALTER TABLE public.wallet_swaps ADD CONSTRAINT wallet_swaps_swap_type_check
+  CHECK (swap_type IN ('buy', 'sell', 'transfer_in', 'transfer_out'));
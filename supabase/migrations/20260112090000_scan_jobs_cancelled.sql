@@ -0,0 +1,4 @@
+-- Queued or running scans can be cancelled; workers poll for it and stop their requests
+ALTER TABLE public.scan_jobs DROP CONSTRAINT scan_jobs_status_check;
+ALTER TABLE public.scan_jobs ADD CONSTRAINT scan_jobs_status_check
+  CHECK (status IN ('queued', 'processing', 'complete', 'failed', 'cancelled'));
@@ -0,0 +1,3 @@
+-- Latest progress event of a running scan (phase, counts, percent, ETA)
+ALTER TABLE public.scan_jobs
+ADD COLUMN progress JSONB;
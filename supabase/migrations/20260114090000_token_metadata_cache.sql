@@ -0,0 +1,27 @@
+-- Symbol, name and logo per mint, shared by every scan (refreshed after a TTL)
+CREATE TABLE IF NOT EXISTS public.token_metadata (
+  mint TEXT PRIMARY KEY,
+  symbol TEXT NOT NULL,
+  name TEXT NOT NULL,
+  logo TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.token_metadata ENABLE ROW LEVEL SECURITY;
+
+-- Token metadata is public on-chain data
+DROP POLICY IF EXISTS "Anyone can view token metadata" ON public.token_metadata;
+CREATE POLICY "Anyone can view token metadata"
+  ON public.token_metadata FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can insert token metadata" ON public.token_metadata;
+CREATE POLICY "Anyone can insert token metadata"
+  ON public.token_metadata FOR INSERT
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anyone can update token metadata" ON public.token_metadata;
+CREATE POLICY "Anyone can update token metadata"
+  ON public.token_metadata FOR UPDATE
+  USING (true);
@@ -0,0 +1,28 @@
+-- Current price and market cap per mint, shared by scans for a short TTL
+CREATE TABLE IF NOT EXISTS public.token_prices (
+  mint TEXT PRIMARY KEY,
+  price NUMERIC NOT NULL,
+  market_cap NUMERIC,
+  ath_price NUMERIC,
+  price_change_24h NUMERIC,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.token_prices ENABLE ROW LEVEL SECURITY;
+
+-- Prices are public market data
+DROP POLICY IF EXISTS "Anyone can view token prices" ON public.token_prices;
+CREATE POLICY "Anyone can view token prices"
+  ON public.token_prices FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can insert token prices" ON public.token_prices;
+CREATE POLICY "Anyone can insert token prices"
+  ON public.token_prices FOR INSERT
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anyone can update token prices" ON public.token_prices;
+CREATE POLICY "Anyone can update token prices"
+  ON public.token_prices FOR UPDATE
+  USING (true);
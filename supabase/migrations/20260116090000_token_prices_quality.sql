@@ -0,0 +1,4 @@
+-- Which provider a stored price came from and how well the providers agreed
+ALTER TABLE public.token_prices
+  ADD COLUMN IF NOT EXISTS price_source TEXT,
+  ADD COLUMN IF NOT EXISTS price_confidence TEXT;
@@ -0,0 +1,6 @@
+-- Stored swaps and their coverage are trusted by later scans, so only the server
+-- (service role, which bypasses RLS) may write them
+DROP POLICY IF EXISTS "Anyone can insert wallet swaps" ON public.wallet_swaps;
+DROP POLICY IF EXISTS "Anyone can update wallet swaps" ON public.wallet_swaps;
+DROP POLICY IF EXISTS "Anyone can insert wallet swap sync" ON public.wallet_swap_sync;
+DROP POLICY IF EXISTS "Anyone can update wallet swap sync" ON public.wallet_swap_sync;
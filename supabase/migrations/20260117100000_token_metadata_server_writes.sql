@@ -0,0 +1,4 @@
+-- Stored metadata is served to every scan, so only the server (service role, which
+-- bypasses RLS) may write it
+DROP POLICY IF EXISTS "Anyone can insert token metadata" ON public.token_metadata;
+DROP POLICY IF EXISTS "Anyone can update token metadata" ON public.token_metadata;
@@ -0,0 +1,4 @@
+-- Stored prices feed every scan's numbers, so only the server (service role, which
+-- bypasses RLS) may write them
+DROP POLICY IF EXISTS "Anyone can insert token prices" ON public.token_prices;
+DROP POLICY IF EXISTS "Anyone can update token prices" ON public.token_prices;
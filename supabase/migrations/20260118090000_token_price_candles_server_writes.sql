@@ -0,0 +1,4 @@
+-- Stored candles set every post-sell peak, so only the server (service role, which
+-- bypasses RLS) may write them
+DROP POLICY IF EXISTS "Anyone can insert token price candles" ON public.token_price_candles;
+DROP POLICY IF EXISTS "Anyone can update token price candles" ON public.token_price_candles;